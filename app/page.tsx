@@ -1,29 +1,238 @@
 "use client"
 
-import { useState, useEffect } from "react"
-import Papa from "papaparse"
-
-declare global {
-  function getLatLng(
-    address: string,
-    callback: (result: { lat: number; lng: number; level: number; pref: string; city: string; town: string; addr: string }) => void,
-    errorCallback?: (error: Error) => void
-  ): void
+import { useState, useEffect, useMemo, useRef } from "react"
+import {
+  addressRoleLabel,
+  assignColumn,
+  EMPTY_ADDRESS_MAPPING,
+  GEOCODED_ROLES,
+  guessAddressMapping,
+  hasGeocodedColumn,
+  MIN_SUGGESTED_SCORE,
+  mappedColumns,
+  mappingFromColumns,
+  moveRole,
+  scoreAddressColumns,
+  type AddressMapping,
+} from "@/lib/address-mapping"
+import {
+  DEFAULT_NORMALIZATION_RULES,
+  NORMALIZATION_RULES,
+  normalizeAddress,
+  type NormalizationRuleId,
+} from "@/lib/address-normalizer"
+import {
+  buildBatchSummary,
+  buildZip,
+  countStatuses,
+  headerSignature,
+  shareColumnSettings,
+  summaryToCsv,
+  type BatchEntry,
+  type BatchFileSettings,
+  type BatchResult,
+} from "@/lib/batch"
+import { clearCache, countCachedResults, getCachedResult, putCachedResult } from "@/lib/geocode-cache"
+import { guessCoordinateColumns } from "@/lib/coordinates"
+import ResultMap from "@/components/ResultMap"
+import { downloadFile } from "@/lib/download"
+import {
+  detectEncoding,
+  encodeText,
+  findUnencodableCharacters,
+  INPUT_ENCODINGS,
+  OUTPUT_ENCODINGS,
+  outputCharset,
+  type DetectedEncoding,
+  type OutputEncoding,
+} from "@/lib/encoding"
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/export-formats"
+import { createGeocodeWorkerJob, type GeocodeJobPhase } from "@/lib/geocode-worker"
+import {
+  discardCheckpoint,
+  fingerprintFile,
+  loadCheckpoint,
+  type CheckpointSettings,
+  type JobCheckpoint,
+} from "@/lib/job-checkpoint"
+import type { JobProgress, JobRunner } from "@/lib/job-runner"
+import { DEFAULT_RETRY_OPTIONS, type RetryOptions } from "@/lib/lookup-retry"
+import {
+  buildAddress,
+  checkPostalCode,
+  createAddressLookup,
+  createCoordinateLookup,
+  createQueueRunner,
+  exportRows,
+  FAILED_STATUSES,
+  FALLBACK_STEPS,
+  formatMatchLevel,
+  geocodeAddresses,
+  reverseGeocodeRows,
+  rowCoordinates,
+  type CoordinateColumns,
+  type ExportOptions,
+  type GeocodedRow,
+  type LookupCache,
+} from "@/lib/pipeline"
+import {
+  COLUMN_PLACEMENTS,
+  DEFAULT_OUTPUT_SCHEMA,
+  MAX_PRECISION,
+  RENAMEABLE_COLUMNS,
+  STATUS_CODES,
+  conflictingColumnNames,
+  deleteOutputPreset,
+  loadOutputPresets,
+  parseOutputSchema,
+  saveOutputPreset,
+  type OutputPreset,
+  type OutputSchema,
+} from "@/lib/output-schema"
+import { PROJECT_FILE_EXTENSION, openProject, saveProject, type ProjectSettings } from "@/lib/project-file"
+import {
+  buildQualityReport,
+  QUALITY_FLAGS,
+  qualityFlagLabel,
+  qualityReportToCsv,
+  qualityReportToJson,
+  type QualityFlag,
+} from "@/lib/quality-report"
+import {
+  DELIMITER_OPTIONS,
+  pastedTextToFile,
+  readSourcePreview,
+  SOURCE_FILE_ACCEPT,
+  sourceKindOf,
+  stripSourceExtension,
+  type SourceOptions,
+} from "@/lib/source-file"
+import {
+  createProvider,
+  DEFAULT_NOMINATIM_URL,
+  PROVIDER_OPTIONS,
+  type GeocodingMode,
+  type ProviderId,
+} from "@/lib/geocoders"
+import {
+  DEFAULT_DERIVED_COLUMN_OPTIONS,
+  DERIVED_COLUMNS,
+  PLANE_ZONES,
+  type DerivedColumnOptions,
+} from "@/lib/grid-coordinates"
+
+const statusBadgeClass = (status: string | undefined) => {
+  switch (status) {
+    case "成功":
+      return "bg-green-100 text-green-800"
+    case "失敗":
+      return "bg-red-100 text-red-800"
+    case "通信エラー":
+    case "タイムアウト":
+    case "エラー":
+      return "bg-rose-100 text-rose-900"
+    case "低精度":
+      return "bg-orange-100 text-orange-800"
+    case "手動修正":
+      return "bg-blue-100 text-blue-800"
+    case "未処理":
+      return "bg-gray-100 text-gray-700"
+    default:
+      return "bg-yellow-100 text-yellow-800"
+  }
+}
+
+const RESULT_PAGE_SIZE = 50
+
+// Rows kept from the preview read to detect the address columns
+const SAMPLE_ROW_COUNT = 50
+// Of those, how many show the assembled address
+const EXAMPLE_ROW_COUNT = 3
+
+// Status filter value for rows whose postal code points to another prefecture
+const POSTAL_MISMATCH_FILTER = "__postal_mismatch"
+// Status filter value for geocoded rows whose municipality has no local government code
+const UNRESOLVED_CODE_FILTER = "__unresolved_code"
+// Status filter values for the rows the quality report flags, followed by the flag
+const QUALITY_FILTER_PREFIX = "__quality:"
+// Flagged rows listed in the quality report before "…他 N 件"
+const QUALITY_ISSUE_LIST_SIZE = 20
+
+// Filter options follow this order; any other status is listed after these
+const STATUS_ORDER = ["成功", "低精度", "手動修正", "失敗", "通信エラー", "タイムアウト", "エラー", "スキップ", "未処理"]
+
+// Pasted text is always written out as UTF-8 TSV with its header on the first line
+const PASTED_SOURCE: Partial<SourceOptions> = { encoding: "UTF-8", delimiter: "\t", headerRow: 1 }
+
+// What the single-address lookup shows of its result row
+const SINGLE_RESULT_FIELDS: { column: string; label: string }[] = [
+  { column: "geocoding_status", label: "ステータス" },
+  { column: "geocoding_level", label: "一致レベル" },
+  { column: "normalized_pref", label: "都道府県" },
+  { column: "normalized_city", label: "市区町村" },
+  { column: "normalized_town", label: "町域" },
+  { column: "normalized_addr", label: "番地" },
+  { column: "latitude", label: "緯度" },
+  { column: "longitude", label: "経度" },
+  { column: "municipality_code", label: "市区町村コード" },
+  { column: "error_message", label: "エラー内容" },
+]
+
+// Sorts the combined source address, which is not a column of its own
+const SOURCE_ADDRESS_SORT_KEY = "__source_address"
+
+interface ResultSort {
+  key: string
+  descending: boolean
+}
+
+const isBlank = (value: string | number | undefined) => value === undefined || value === ""
+
+// Blank cells stay at the bottom in both directions
+const compareResultValues = (a: string | number | undefined, b: string | number | undefined, descending: boolean) => {
+  if (isBlank(a) || isBlank(b)) return Number(isBlank(a)) - Number(isBlank(b))
+  const order =
+    typeof a === "number" && typeof b === "number"
+      ? a - b
+      : String(a).localeCompare(String(b), "ja", { numeric: true })
+  return descending ? -order : order
 }
 
-interface GeocodedRow {
-  [key: string]: string | number | undefined
-  latitude?: number
-  longitude?: number
-  geocoding_status?: string
-  error_message?: string
+const hasColumnSelection = (mode: GeocodingMode, addressMapping: AddressMapping, coordinates: CoordinateColumns) =>
+  mode === "forward"
+    ? hasGeocodedColumn(addressMapping)
+    : coordinates.coordinateInput === "combined"
+      ? coordinates.latLonColumn !== ""
+      : coordinates.latColumn !== "" && coordinates.lngColumn !== ""
+
+const formatMegabytes = (bytes: number) => (bytes / 1024 / 1024).toFixed(1)
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  if (hours > 0) return `${hours}時間${minutes}分`
+  if (minutes > 0) return `${minutes}分${seconds}秒`
+  return `${seconds}秒`
 }
 
 export default function Home() {
-  const [file, setFile] = useState<File | null>(null)
+  // Queued files; the editor state below (columns, source options, results) always shows the active one
+  const [batch, setBatch] = useState<BatchEntry[]>([])
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [shareSettings, setShareSettings] = useState(true)
+  const [dragActive, setDragActive] = useState(false)
+  const [batchProgress, setBatchProgress] = useState<{ current: number; total: number; fileName: string } | null>(
+    null
+  )
+  const nextEntryIdRef = useRef(0)
+  const batchCancelRef = useRef(false)
   const [data, setData] = useState<GeocodedRow[]>([])
-  const [addressColumns, setAddressColumns] = useState<string[]>([])
+  const [addressMapping, setAddressMapping] = useState<AddressMapping>(EMPTY_ADDRESS_MAPPING)
   const [columns, setColumns] = useState<string[]>([])
+  // The first rows of the active file, for showing how the address is assembled
+  const [previewRows, setPreviewRows] = useState<Record<string, string>[]>([])
   const [loading, setLoading] = useState(false)
   const [progress, setProgress] = useState(0)
   const [error, setError] = useState<string>("")
@@ -31,96 +240,432 @@ export default function Home() {
   const [geocoderReady, setGeocoderReady] = useState(false)
   const [inputEncoding, setInputEncoding] = useState<string>("UTF-8")
   const [coordinateFormat, setCoordinateFormat] = useState<"separate" | "combined">("separate")
+  const [minMatchLevel, setMinMatchLevel] = useState(3)
+  const [providerId, setProviderId] = useState<ProviderId>("geolonia")
+  const [nominatimUrl, setNominatimUrl] = useState(DEFAULT_NOMINATIM_URL)
+  const [concurrency, setConcurrency] = useState(4)
+  const [requestsPerSecond, setRequestsPerSecond] = useState(10)
+  const [retryOptions, setRetryOptions] = useState<RetryOptions>(DEFAULT_RETRY_OPTIONS)
+  const [fallback, setFallback] = useState(false)
+  const [jobState, setJobState] = useState<"idle" | "running" | "paused" | "cancelling">("idle")
+  const [jobProgress, setJobProgress] = useState<JobProgress | null>(null)
+  const [jobPhase, setJobPhase] = useState<GeocodeJobPhase>("reading")
+  const [cancelled, setCancelled] = useState(false)
+  const [resultStatusFilter, setResultStatusFilter] = useState("")
+  const [resultQuery, setResultQuery] = useState("")
+  const [resultSort, setResultSort] = useState<ResultSort | null>(null)
+  const [resultPage, setResultPage] = useState(0)
+  // Row opened from the quality report, highlighted in the results table
+  const [highlightedRow, setHighlightedRow] = useState<number | null>(null)
+  const [regeocodeProgress, setRegeocodeProgress] = useState<JobProgress | null>(null)
+  // Remounts the result map so that each run starts from a view fitted to its own points
+  const [runCount, setRunCount] = useState(0)
+  const resultsRef = useRef<HTMLDivElement>(null)
+  const runnerRef = useRef<Pick<JobRunner<unknown>, "pause" | "resume" | "cancel"> | null>(null)
+  const [checkpoint, setCheckpoint] = useState<JobCheckpoint | null>(null)
+  const [normalizationRules, setNormalizationRules] = useState<NormalizationRuleId[]>(DEFAULT_NORMALIZATION_RULES)
+  const [useCache, setUseCache] = useState(true)
+  const [cacheTtlDays, setCacheTtlDays] = useState(30)
+  const [cacheCount, setCacheCount] = useState<number | null>(null)
+  const [mode, setMode] = useState<GeocodingMode>("forward")
+  const [coordinateInput, setCoordinateInput] = useState<"separate" | "combined">("separate")
+  const [latColumn, setLatColumn] = useState("")
+  const [lngColumn, setLngColumn] = useState("")
+  const [latLonColumn, setLatLonColumn] = useState("")
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv")
+  const [missingGeometry, setMissingGeometry] = useState<"omit" | "null">("omit")
+  const [derivedColumns, setDerivedColumns] = useState<DerivedColumnOptions>(DEFAULT_DERIVED_COLUMN_OPTIONS)
+  const [outputSchema, setOutputSchema] = useState<OutputSchema>(DEFAULT_OUTPUT_SCHEMA)
+  const [outputPresets, setOutputPresets] = useState<OutputPreset[]>([])
+  const [presetName, setPresetName] = useState("")
+  const [placemarkNameColumn, setPlacemarkNameColumn] = useState("")
+  const [placemarkDescriptionColumn, setPlacemarkDescriptionColumn] = useState("")
+  const [delimiter, setDelimiter] = useState("")
+  const [detectedDelimiter, setDetectedDelimiter] = useState("")
+  const [sheetNames, setSheetNames] = useState<string[]>([])
+  const [sheetName, setSheetName] = useState("")
+  const [headerRow, setHeaderRow] = useState(1)
+  const [detectedEncoding, setDetectedEncoding] = useState<DetectedEncoding | null>(null)
+  const [outputEncoding, setOutputEncoding] = useState<OutputEncoding>("utf-8")
+  const [inputMode, setInputMode] = useState<"file" | "paste" | "single">("file")
+  const [pastedText, setPastedText] = useState("")
+  const [singleAddress, setSingleAddress] = useState("")
+  const [singleResult, setSingleResult] = useState<GeocodedRow | null>(null)
+  const [singleLoading, setSingleLoading] = useState(false)
+  // Which copy button last succeeded, shown for a moment
+  const [copiedTarget, setCopiedTarget] = useState<"results" | "single" | null>(null)
+
+  const file = batch[activeIndex]?.file ?? null
+  // The single-address lookup only geocodes; in reverse mode the file upload shows instead
+  const activeInputMode = inputMode === "single" && mode !== "forward" ? "file" : inputMode
+  // A queued file is the same as the interrupted job and will resume it
+  const resumeMatched = batch.some((entry) => entry.resume)
+
+  const provider = useMemo(() => createProvider(providerId, { nominatimUrl }), [providerId, nominatimUrl])
+  const textExport = exportFormat === "csv" || exportFormat === "tsv"
+  // Characters the chosen output encoding would replace with "?"; only Shift_JIS has any
+  const unencodableCharacters = useMemo(
+    () => (textExport && outputEncoding === "shift_jis" ? findUnencodableCharacters(data, outputEncoding) : []),
+    [data, outputEncoding, textExport]
+  )
+  // Why each column looks like part of an address, strongest first
+  const columnScores = useMemo(
+    () => scoreAddressColumns(columns, previewRows).sort((a, b) => b.score - a.score),
+    [columns, previewRows]
+  )
+  const columnScoreByName = useMemo(
+    () => new Map(columnScores.map((candidate) => [candidate.column, candidate])),
+    [columnScores]
+  )
+  const columnsSelected = hasColumnSelection(mode, addressMapping, { coordinateInput, latColumn, lngColumn, latLonColumn })
 
-  // Load Community Geocoder script
   useEffect(() => {
-    const script = document.createElement("script")
-    script.src = "https://cdn.geolonia.com/community-geocoder.js"
-    script.async = true
-    script.onload = () => {
-      setGeocoderReady(true)
+    countCachedResults()
+      .then(setCacheCount)
+      .catch(() => setCacheCount(null))
+    // Offer to resume a job that was interrupted by a crash or reload
+    loadCheckpoint()
+      .then((saved) => setCheckpoint(saved ?? null))
+      .catch(() => setCheckpoint(null))
+    loadOutputPresets()
+      .then(setOutputPresets)
+      .catch(() => setOutputPresets([]))
+  }, [])
+
+  // Load the selected geocoding provider
+  useEffect(() => {
+    let active = true
+    setGeocoderReady(false)
+    provider
+      .load()
+      .then(() => {
+        if (active) setGeocoderReady(true)
+      })
+      .catch((err: unknown) => {
+        if (active) setError(err instanceof Error ? err.message : "Failed to load geocoding service")
+      })
+
+    return () => {
+      active = false
     }
-    script.onerror = () => {
-      setError("Failed to load geocoding service")
+  }, [provider])
+
+  const applyCoordinateColumnGuess = (cols: string[]) => {
+    const guess = guessCoordinateColumns(cols)
+    setLatColumn(guess.latColumn)
+    setLngColumn(guess.lngColumn)
+    setLatLonColumn(guess.latLonColumn)
+    if (guess.latLonColumn && !(guess.latColumn && guess.lngColumn)) setCoordinateInput("combined")
+  }
+
+  const sourceOptions = (): SourceOptions => ({ encoding: inputEncoding, delimiter, sheetName, headerRow })
+
+  // Reads the file to list its columns (and sheets); `onColumns` picks default selections
+  const loadColumns = async (
+    sourceFile: File,
+    options: SourceOptions,
+    onColumns: (cols: string[], samples: Record<string, string>[]) => void
+  ) => {
+    try {
+      const table = await readSourcePreview(sourceFile, options)
+      setColumns(table.columns)
+      const samples = table.rows.slice(0, SAMPLE_ROW_COUNT)
+      setPreviewRows(samples)
+      setSheetNames(table.sheetNames)
+      setDetectedDelimiter(table.delimiter)
+      onColumns(table.columns, samples)
+    } catch (err) {
+      setError(`ファイル読み込みエラー: ${err instanceof Error ? err.message : String(err)}`)
     }
-    document.body.appendChild(script)
+  }
 
-    return () => {
-      if (document.body.contains(script)) {
-        document.body.removeChild(script)
+  // Re-reads the file after an encoding, delimiter, sheet or header row change
+  const handleSourceOptionChange = (patch: Partial<SourceOptions>) => {
+    if (patch.encoding !== undefined) setInputEncoding(patch.encoding)
+    if (patch.delimiter !== undefined) setDelimiter(patch.delimiter)
+    if (patch.sheetName !== undefined) setSheetName(patch.sheetName)
+    if (patch.headerRow !== undefined) setHeaderRow(patch.headerRow)
+    if (!file) return
+    setError("")
+    loadColumns(file, { ...sourceOptions(), ...patch }, (cols, samples) => {
+      setAddressMapping(guessAddressMapping(cols, samples))
+      applyCoordinateColumnGuess(cols)
+    })
+  }
+
+  // IndexedDB-backed result cache for the pipeline lookups, honouring the cache toggle and TTL
+  const lookupCache: LookupCache | undefined = useCache
+    ? {
+        get: <T,>(namespace: string, key: string) => getCachedResult<T>(namespace, key, cacheTtlDays),
+        put: putCachedResult,
       }
+    : undefined
+  const lookupAddress = createAddressLookup(provider, lookupCache, retryOptions)
+  const lookupCoordinates = createCoordinateLookup(provider, lookupCache, retryOptions)
+
+  const coordinateColumns = useMemo<CoordinateColumns>(
+    () => ({ coordinateInput, latColumn, lngColumn, latLonColumn }),
+    [coordinateInput, latColumn, lngColumn, latLonColumn]
+  )
+
+  const editorSettings = (): BatchFileSettings => ({
+    source: sourceOptions(),
+    addressMapping,
+    coordinates: coordinateColumns,
+  })
+
+  // Writes the editor state back into the active entry; with shared settings, files with the same header follow it
+  const commitEditor = () => {
+    const active = batch[activeIndex]
+    if (!active) return batch
+    const updated: BatchEntry = {
+      ...active,
+      columns,
+      previewRows,
+      sheetNames,
+      detectedDelimiter,
+      detectedEncoding,
+      settings: editorSettings(),
+      result: active.result && { ...active.result, rows: data },
+    }
+    const entries = batch.map((entry) => (entry.id === active.id ? updated : entry))
+    return shareSettings ? shareColumnSettings(entries, updated) : entries
+  }
+
+  // Loads an entry into the editor state
+  const showEntry = (entry: BatchEntry | undefined) => {
+    if (entry) {
+      const { source, coordinates } = entry.settings
+      setInputEncoding(source.encoding)
+      setDelimiter(source.delimiter)
+      setSheetName(source.sheetName ?? "")
+      setHeaderRow(source.headerRow)
+      setAddressMapping(entry.settings.addressMapping)
+      setCoordinateInput(coordinates.coordinateInput)
+      setLatColumn(coordinates.latColumn)
+      setLngColumn(coordinates.lngColumn)
+      setLatLonColumn(coordinates.latLonColumn)
+    }
+    setColumns(entry?.columns ?? [])
+    setPreviewRows(entry?.previewRows ?? [])
+    setSheetNames(entry?.sheetNames ?? [])
+    setDetectedDelimiter(entry?.detectedDelimiter ?? "")
+    setDetectedEncoding(entry?.detectedEncoding ?? null)
+    setData(entry?.result?.rows ?? [])
+    setCancelled(entry?.result?.cancelled ?? false)
+    setSuccess(Boolean(entry?.result && !entry.result.error))
+    setResultStatusFilter("")
+    setResultQuery("")
+    setResultSort(null)
+    setResultPage(0)
+    setHighlightedRow(null)
+  }
+
+  const handleSelectEntry = (index: number) => {
+    if (index === activeIndex) return
+    const entries = commitEditor()
+    setBatch(entries)
+    setActiveIndex(index)
+    showEntry(entries[index])
+  }
+
+  const handleRemoveEntry = (index: number) => {
+    const entries = commitEditor().filter((_, i) => i !== index)
+    const nextIndex = Math.max(0, Math.min(index < activeIndex ? activeIndex - 1 : activeIndex, entries.length - 1))
+    setBatch(entries)
+    setActiveIndex(nextIndex)
+    showEntry(entries[nextIndex])
+  }
+
+  // Restores the job-wide settings of the interrupted job
+  const applyCheckpointSettings = (settings: CheckpointSettings) => {
+    setProviderId(settings.providerId)
+    setNominatimUrl(settings.nominatimUrl)
+    setMinMatchLevel(settings.minMatchLevel)
+    setFallback(settings.fallback)
+    setNormalizationRules(settings.normalizationRules ?? DEFAULT_NORMALIZATION_RULES)
+    setMode(settings.mode ?? "forward")
+  }
+
+  /**
+   * Reads the header of an added file and picks its settings: those of the
+   * interrupted job for the same file, else those of a queued file with the
+   * same header when settings are shared, else detected defaults.
+   */
+  const prepareEntry = async (
+    sourceFile: File,
+    queued: BatchEntry[],
+    sourceOverrides: Partial<SourceOptions> = {}
+  ): Promise<BatchEntry> => {
+    const fingerprint = checkpoint ? await fingerprintFile(sourceFile).catch(() => "") : ""
+    const saved = checkpoint && fingerprint === checkpoint.fingerprint ? checkpoint.settings : null
+
+    let source: SourceOptions
+    let detected: DetectedEncoding | null = null
+    if (saved) {
+      source = {
+        encoding: saved.inputEncoding,
+        delimiter: saved.delimiter ?? "",
+        sheetName: saved.sheetName ?? "",
+        headerRow: saved.headerRow ?? 1,
+      }
+    } else {
+      // The header row carries over between files of the same type, as the delimiter does
+      const sameKind = file !== null && sourceKindOf(file) === sourceKindOf(sourceFile)
+      source = { encoding: inputEncoding, delimiter, sheetName: "", headerRow: sameKind ? headerRow : 1 }
+      if (sourceKindOf(sourceFile) === "delimited") {
+        // Start from the detected encoding; the select still allows a manual override
+        detected = await detectEncoding(sourceFile).catch(() => null)
+        if (detected) source = { ...source, encoding: detected.encoding }
+      }
+      source = { ...source, ...sourceOverrides }
+    }
+
+    const table = await readSourcePreview(sourceFile, source)
+    const samples = table.rows.slice(0, SAMPLE_ROW_COUNT)
+    const entry: BatchEntry = {
+      id: nextEntryIdRef.current++,
+      file: sourceFile,
+      columns: table.columns,
+      sheetNames: table.sheetNames,
+      detectedDelimiter: table.delimiter,
+      detectedEncoding: detected,
+      previewRows: samples,
+      settings: { source, addressMapping: EMPTY_ADDRESS_MAPPING, coordinates: coordinateColumns },
+      resume: saved !== null,
+      result: null,
     }
-  }, [])
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0]
-    if (!selectedFile) return
+    if (saved) {
+      const { coordinateInput, latColumn, lngColumn, latLonColumn } = saved
+      return {
+        ...entry,
+        settings: {
+          source,
+          // Checkpoints written before column roles existed only listed the columns
+          addressMapping: saved.addressMapping ?? guessAddressMapping(table.columns, samples),
+          coordinates: {
+            coordinateInput: coordinateInput ?? "separate",
+            latColumn: latColumn ?? "",
+            lngColumn: lngColumn ?? "",
+            latLonColumn: latLonColumn ?? "",
+          },
+        },
+      }
+    }
+
+    const sameHeader = shareSettings
+      ? queued.find((other) => headerSignature(other.columns) === headerSignature(table.columns))
+      : undefined
+    if (sameHeader) return { ...entry, settings: { ...sameHeader.settings, source } }
 
-    setFile(selectedFile)
+    const guess = guessCoordinateColumns(table.columns)
+    return {
+      ...entry,
+      settings: {
+        source,
+        // Keep the current column roles when the new file has those columns too
+        addressMapping:
+          hasGeocodedColumn(addressMapping) &&
+          mappedColumns(addressMapping).every((col) => table.columns.includes(col))
+            ? addressMapping
+            : guessAddressMapping(table.columns, samples),
+        coordinates: {
+          coordinateInput: guess.latLonColumn && !(guess.latColumn && guess.lngColumn) ? "combined" : coordinateInput,
+          latColumn: guess.latColumn,
+          lngColumn: guess.lngColumn,
+          latLonColumn: guess.latLonColumn,
+        },
+      },
+    }
+  }
+
+  const addFiles = async (selected: File[], sourceOverrides?: Partial<SourceOptions>) => {
+    if (selected.length === 0) return
     setError("")
-    setSuccess(false)
-    setData([])
     setProgress(0)
 
-    // Read file with specified encoding
-    const reader = new FileReader()
-    reader.onload = (event) => {
+    const entries = commitEditor()
+    const added: BatchEntry[] = []
+    const failed: string[] = []
+    for (const sourceFile of selected) {
       try {
-        const arrayBuffer = event.target?.result as ArrayBuffer
-        const decoder = new TextDecoder(inputEncoding)
-        const text = decoder.decode(arrayBuffer)
-
-        // Parse CSV to detect columns
-        Papa.parse(text, {
-          header: true,
-          skipEmptyLines: true,
-          complete: (results) => {
-            if (results.data.length > 0) {
-              const cols = Object.keys(results.data[0] as Record<string, unknown>)
-              setColumns(cols)
-              if (addressColumns.length === 0 && cols.length > 0) {
-                setAddressColumns([cols[0]])
-              }
-            }
-          },
-          error: (error: { message: string }) => {
-            setError(`CSVの読み込みエラー: ${error.message}`)
-          },
-        })
+        added.push(await prepareEntry(sourceFile, [...entries, ...added], sourceOverrides))
       } catch (err) {
-        setError(`ファイル読み込みエラー: ${err instanceof Error ? err.message : String(err)}`)
+        failed.push(`${sourceFile.name}: ${err instanceof Error ? err.message : String(err)}`)
       }
     }
-    reader.onerror = () => {
-      setError("ファイルの読み込みに失敗しました")
+    if (failed.length > 0) setError(`ファイル読み込みエラー: ${failed.join(" / ")}`)
+    if (added.length === 0) return
+
+    const resumed = added.find((entry) => entry.resume)
+    if (resumed && checkpoint) applyCheckpointSettings(checkpoint.settings)
+
+    const next = [...entries, ...added]
+    const index = next.indexOf(resumed ?? added[0])
+    setBatch(next)
+    setActiveIndex(index)
+    showEntry(next[index])
+  }
+
+  // Pasted rows join the queue as a file of their own, so every setting and export applies to them
+  const handleAddPasted = async () => {
+    let pasted: File
+    try {
+      pasted = pastedTextToFile(pastedText)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+      return
     }
-    reader.readAsArrayBuffer(selectedFile)
+    await addFiles([pasted], PASTED_SOURCE)
+    setPastedText("")
   }
 
-  const geocodeAddress = (address: string): Promise<{ lat: number; lng: number } | null> => {
-    return new Promise((resolve) => {
-      if (typeof window !== "undefined" && typeof getLatLng !== "undefined") {
-        getLatLng(
-          address,
-          (result) => {
-            resolve({
-              lat: result.lat,
-              lng: result.lng,
-            })
-          },
-          () => {
-            resolve(null)
-          }
-        )
-      } else {
-        resolve(null)
-      }
-    })
+  const refreshCacheCount = () => {
+    countCachedResults()
+      .then(setCacheCount)
+      .catch(() => setCacheCount(null))
   }
 
+  const handleClearCache = async () => {
+    try {
+      await clearCache()
+    } catch (err) {
+      setError(`キャッシュの削除に失敗しました: ${err instanceof Error ? err.message : String(err)}`)
+    }
+    refreshCacheCount()
+  }
+
+  const checkpointSettings = ({ source, addressMapping, coordinates }: BatchFileSettings): CheckpointSettings => ({
+    mode,
+    addressMapping,
+    inputEncoding: source.encoding,
+    delimiter: source.delimiter,
+    sheetName: source.sheetName ?? "",
+    headerRow: source.headerRow,
+    providerId,
+    nominatimUrl,
+    minMatchLevel,
+    normalizationRules,
+    fallback,
+    ...coordinates,
+  })
+
   const handleProcess = async () => {
-    if (!file || addressColumns.length === 0) {
-      setError("ファイルと住所列を選択してください")
+    const entries = commitEditor()
+    if (entries.length === 0 || !columnsSelected) {
+      setError(mode === "forward" ? "ファイルと住所列を選択してください" : "ファイルと緯度経度の列を選択してください")
+      return
+    }
+    const unselected = entries.filter(
+      (entry) => !hasColumnSelection(mode, entry.settings.addressMapping, entry.settings.coordinates)
+    )
+    if (unselected.length > 0) {
+      setError(
+        `${mode === "forward" ? "住所列" : "緯度経度の列"}が選択されていないファイルがあります: ${unselected
+          .map((entry) => entry.file.name)
+          .join(", ")}`
+      )
       return
     }
 
@@ -129,128 +674,582 @@ export default function Home() {
       return
     }
 
+    if (mode === "reverse" && !provider.reverseGeocode) {
+      setError("選択中のジオコーディングサービスは緯度経度からの住所検索に対応していません")
+      return
+    }
+
+    setBatch(entries)
     setLoading(true)
-    setProgress(0)
+    setRunCount((count) => count + 1)
     setError("")
+    setSuccess(false)
+    setCancelled(false)
+    batchCancelRef.current = false
 
-    // Read file with specified encoding
-    const reader = new FileReader()
-    reader.onload = (event) => {
-      try {
-        const arrayBuffer = event.target?.result as ArrayBuffer
-        const decoder = new TextDecoder(inputEncoding)
-        const text = decoder.decode(arrayBuffer)
-
-        Papa.parse(text, {
-          header: true,
-          skipEmptyLines: true,
-          complete: async (results) => {
-            try {
-              const rows: GeocodedRow[] = results.data as GeocodedRow[]
-              const geocodedRows: GeocodedRow[] = []
-
-              for (let i = 0; i < rows.length; i++) {
-                const row = rows[i]
-
-                // 複数列の値を結合して住所を作成
-                const addressParts = addressColumns
-                  .map((col) => {
-                    const value = row[col]
-                    return value ? String(value).trim() : ""
-                  })
-                  .filter((part) => part.length > 0)
-
-                const address = addressParts.join("")
-
-                if (address) {
-                  const coords = await geocodeAddress(address)
-                  if (coords) {
-                    geocodedRows.push({
-                      ...row,
-                      latitude: coords.lat,
-                      longitude: coords.lng,
-                      geocoding_status: "成功",
-                    })
-                  } else {
-                    geocodedRows.push({
-                      ...row,
-                      geocoding_status: "失敗",
-                      error_message: "結果が見つかりません",
-                    })
-                  }
-                } else {
-                  geocodedRows.push({
-                    ...row,
-                    geocoding_status: "スキップ",
-                    error_message: "住所が空です",
-                  })
-                }
-
-                setProgress(Math.round(((i + 1) / rows.length) * 100))
-              }
+    // The interrupted job runs first, before another file's job replaces its checkpoint
+    const queue = [...entries].sort((a, b) => Number(b.resume) - Number(a.resume))
+    let results = entries
+    const failed: string[] = []
+    try {
+      for (const [position, entry] of queue.entries()) {
+        setBatchProgress({ current: position + 1, total: queue.length, fileName: entry.file.name })
+        setProgress(0)
+        setJobPhase("reading")
+        setJobProgress(null)
 
-              setData(geocodedRows)
-              setSuccess(true)
-            } catch (err) {
-              setError(`処理エラー: ${err instanceof Error ? err.message : String(err)}`)
-            } finally {
-              setLoading(false)
+        let result: BatchResult
+        try {
+          // Reading, parsing and the job queue run in a worker; only the lookups come back to this thread
+          const job = createGeocodeWorkerJob(
+            {
+              file: entry.file,
+              source: entry.settings.source,
+              mode,
+              forward: { addressMapping: entry.settings.addressMapping, normalizationRules, minMatchLevel, fallback },
+              coordinateColumns: entry.settings.coordinates,
+              concurrency,
+              requestsPerSecond,
+              useCache,
+              checkpoint: { settings: checkpointSettings(entry.settings), saved: entry.resume ? checkpoint : null },
+            },
+            {
+              lookup: mode === "forward" ? lookupAddress : lookupCoordinates,
+              onProgress: (phase, p) => {
+                setJobPhase(phase)
+                setJobProgress(p)
+                setProgress(p.total > 0 ? Math.round((p.processed / p.total) * 100) : 100)
+              },
             }
-          },
-          error: (error: { message: string }) => {
-            setError(`CSVの読み込みエラー: ${error.message}`)
-            setLoading(false)
-          },
-        })
-      } catch (err) {
-        setError(`ファイル読み込みエラー: ${err instanceof Error ? err.message : String(err)}`)
-        setLoading(false)
+          )
+          runnerRef.current = job
+          setJobState(batchCancelRef.current ? "cancelling" : "running")
+          if (batchCancelRef.current) job.cancel()
+
+          const { rows, cancelled } = await job.start()
+          result = { rows, cancelled }
+        } catch (err) {
+          // Cancelling while the file is still being read ends the job with an error; the file stays unprocessed
+          if (batchCancelRef.current) break
+          const message = err instanceof Error ? err.message : String(err)
+          failed.push(queue.length > 1 ? `${entry.file.name}: ${message}` : message)
+          result = { rows: [], cancelled: false, error: message }
+        }
+
+        // The worker has discarded the checkpoint once the job ran, so there is nothing left to resume
+        results = results.map((other) =>
+          other.id === entry.id ? { ...other, resume: other.resume && Boolean(result.error), result } : other
+        )
+        setBatch(results)
+        if (result.cancelled || batchCancelRef.current) break
       }
-    }
-    reader.onerror = () => {
-      setError("ファイルの読み込みに失敗しました")
+
+      const active = results[activeIndex]
+      if (!placemarkNameColumn && active) {
+        setPlacemarkNameColumn(mode === "forward" ? mappedColumns(active.settings.addressMapping)[0] : "reverse_address")
+      }
+      showEntry(active)
+      if (failed.length > 0) setError(`処理エラー: ${failed.join(" / ")}`)
+    } finally {
+      refreshCacheCount()
+      loadCheckpoint()
+        .then((saved) => setCheckpoint(saved ?? null))
+        .catch(() => setCheckpoint(null))
+      runnerRef.current = null
+      setBatchProgress(null)
+      setJobState("idle")
       setLoading(false)
     }
-    reader.readAsArrayBuffer(file)
   }
 
-  const buildExportRows = () => {
-    if (coordinateFormat === "combined") {
-      return data.map((row) => {
-        const { latitude, longitude, ...rest } = row
-        return {
-          ...rest,
-          lat_lon:
-            typeof latitude === "number" && typeof longitude === "number" ? `${latitude},${longitude}` : "",
+  const handleDiscardCheckpoint = async () => {
+    await discardCheckpoint().catch(() => undefined)
+    setCheckpoint(null)
+    setBatch((entries) => entries.map((entry) => ({ ...entry, resume: false })))
+  }
+
+  const handlePause = () => {
+    runnerRef.current?.pause()
+    setJobState("paused")
+  }
+
+  const handleResume = () => {
+    runnerRef.current?.resume()
+    setJobState("running")
+  }
+
+  const handleCancel = () => {
+    // Also stops the files still waiting in the queue
+    batchCancelRef.current = true
+    runnerRef.current?.cancel()
+    setJobState("cancelling")
+  }
+
+  const mapPoints = useMemo(
+    () => data.map((row) => rowCoordinates(row, mode, coordinateColumns)),
+    [data, mode, coordinateColumns]
+  )
+
+  const resultStatuses = useMemo(() => {
+    const counts = countStatuses(data)
+    const rank = (status: string) => (STATUS_ORDER.includes(status) ? STATUS_ORDER.indexOf(status) : STATUS_ORDER.length)
+    return Array.from(counts).sort(([a], [b]) => rank(a) - rank(b))
+  }, [data])
+
+  const postalMismatchCount = useMemo(() => data.filter((row) => row.postal_pref_mismatch === "yes").length, [data])
+  const unresolvedCodeCount = useMemo(
+    () => data.filter((row) => row.municipality_code_unresolved === "yes").length,
+    [data]
+  )
+
+  // Every failed row regardless of the current filter, for "失敗行のみ再実行"
+  const failedResultIndexes = useMemo(
+    () =>
+      data.flatMap((row, i) => (row.geocoding_status && FAILED_STATUSES.includes(row.geocoding_status) ? [i] : [])),
+    [data]
+  )
+
+  const qualityReport = useMemo(() => buildQualityReport(data, mapPoints, mode, STATUS_ORDER), [data, mapPoints, mode])
+  const flaggedRows = useMemo(() => {
+    const rows = new Map<QualityFlag, Set<number>>(QUALITY_FLAGS.map(({ id }) => [id, new Set()]))
+    qualityReport.issues.forEach(({ row, flag }) => rows.get(flag)?.add(row))
+    return rows
+  }, [qualityReport])
+
+  // Indexes into `data` after filtering and sorting, so that edits always address the original row
+  const visibleResultIndexes = useMemo(() => {
+    const query = resultQuery.normalize("NFKC").trim().toLowerCase()
+    const indexes = data
+      .map((_, i) => i)
+      .filter((i) => {
+        const row = data[i]
+        if (resultStatusFilter === POSTAL_MISMATCH_FILTER) {
+          if (row.postal_pref_mismatch !== "yes") return false
+        } else if (resultStatusFilter === UNRESOLVED_CODE_FILTER) {
+          if (row.municipality_code_unresolved !== "yes") return false
+        } else if (resultStatusFilter.startsWith(QUALITY_FILTER_PREFIX)) {
+          const flag = resultStatusFilter.slice(QUALITY_FILTER_PREFIX.length) as QualityFlag
+          if (!flaggedRows.get(flag)?.has(i)) return false
+        } else if (resultStatusFilter && row.geocoding_status !== resultStatusFilter) {
+          return false
         }
+        return (
+          !query ||
+          Object.values(row).some(
+            (value) => value !== undefined && String(value).normalize("NFKC").toLowerCase().includes(query)
+          )
+        )
       })
+    if (resultSort) {
+      const valueOf = (row: GeocodedRow) =>
+        resultSort.key === SOURCE_ADDRESS_SORT_KEY ? buildAddress(row, addressMapping) : row[resultSort.key]
+      indexes.sort((a, b) => compareResultValues(valueOf(data[a]), valueOf(data[b]), resultSort.descending))
     }
-    return data
+    return indexes
+  }, [data, resultStatusFilter, resultQuery, resultSort, addressMapping, flaggedRows])
+
+  const resultPageCount = Math.max(1, Math.ceil(visibleResultIndexes.length / RESULT_PAGE_SIZE))
+  const currentResultPage = Math.min(resultPage, resultPageCount - 1)
+  const pageResultIndexes = visibleResultIndexes.slice(
+    currentResultPage * RESULT_PAGE_SIZE,
+    (currentResultPage + 1) * RESULT_PAGE_SIZE
+  )
+
+  const resultColumns: { label: string; sortKey?: string }[] =
+    mode === "reverse"
+      ? [
+          { label: "#" },
+          { label: "緯度・経度" },
+          { label: "都道府県", sortKey: "reverse_pref" },
+          { label: "市区町村", sortKey: "reverse_city" },
+          { label: "町丁目", sortKey: "reverse_town" },
+          { label: "住所", sortKey: "reverse_address" },
+          { label: "ステータス", sortKey: "geocoding_status" },
+        ]
+      : [
+          { label: "#" },
+          { label: "住所", sortKey: SOURCE_ADDRESS_SORT_KEY },
+          { label: "ジオコーディングに使う住所（編集可）", sortKey: "normalized_address" },
+          ...(coordinateFormat === "separate"
+            ? [
+                { label: "緯度", sortKey: "latitude" },
+                { label: "経度", sortKey: "longitude" },
+              ]
+            : [{ label: "緯度・経度", sortKey: "latitude" }]),
+          { label: "一致レベル", sortKey: "geocoding_level" },
+          { label: "ジオコーダーの解釈" },
+          { label: "ステータス", sortKey: "geocoding_status" },
+          { label: "操作" },
+        ]
+
+  // Ascending, then descending, then back to the original row order
+  const handleResultSort = (key: string) => {
+    setResultSort((current) =>
+      current?.key !== key ? { key, descending: false } : current.descending ? null : { key, descending: true }
+    )
+  }
+
+  const handleAddressEdit = (index: number, address: string) => {
+    if (address === (data[index].normalized_address ?? "")) return
+    setData((rows) => rows.map((row, i) => (i === index ? { ...row, normalized_address: address } : row)))
   }
 
-  const handleDownload = () => {
+  /**
+   * Looks the given rows up again, keeping everything else as it is: by their
+   * (possibly edited) address, or in reverse mode by their coordinates.
+   */
+  const regeocodeRows = async (indexes: number[]) => {
+    if (!geocoderReady) {
+      setError("ジオコーディングサービスがロード中です。お待ちください...")
+      return
+    }
+
+    const targets = indexes.map((i) => data[i])
+
+    setError("")
+    setRegeocodeProgress({ processed: 0, total: targets.length, rate: 0, etaMs: null })
+    try {
+      const runQueue = createQueueRunner({ concurrency, requestsPerSecond, onProgress: setRegeocodeProgress })
+      let updatedRows: GeocodedRow[]
+      if (mode === "forward") {
+        const addresses = targets.map((row) => normalizeAddress(row.normalized_address ?? "", normalizationRules))
+        const { geocodedRows } = await geocodeAddresses(
+          targets,
+          addresses,
+          { minMatchLevel, fallback },
+          lookupAddress,
+          runQueue
+        )
+        // Rows geocoded with fallback keep its columns, cleared when fallback has since been turned off
+        const fallbackCleared = fallback ? {} : { fallback_level: undefined, fallback_address: undefined }
+        updatedRows = geocodedRows.map((row, i) =>
+          checkPostalCode("fallback_level" in targets[i] ? { ...row, ...fallbackCleared } : row, addressMapping)
+        )
+      } else {
+        updatedRows = (await reverseGeocodeRows(targets, coordinateColumns, lookupCoordinates, runQueue)).geocodedRows
+      }
+      const updated = new Map(indexes.map((index, i) => [index, updatedRows[i]]))
+      setData((rows) => rows.map((row, i) => updated.get(i) ?? row))
+    } catch (err) {
+      setError(`再変換エラー: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      refreshCacheCount()
+      setRegeocodeProgress(null)
+    }
+  }
+
+  // Dragging a marker on the result map replaces the geocoded position
+  const handleMarkerMove = (index: number, lat: number, lng: number) => {
+    setData((rows) =>
+      rows.map((row, i) =>
+        i === index
+          ? {
+              ...row,
+              latitude: Number(lat.toFixed(6)),
+              longitude: Number(lng.toFixed(6)),
+              geocoding_status: "手動修正",
+              error_message: undefined,
+            }
+          : row
+      )
+    )
+  }
+
+  const selectedExportFormat = EXPORT_FORMATS.find((f) => f.id === exportFormat) ?? EXPORT_FORMATS[0]
+
+  const exportOptionsFor = (
+    documentName: string,
+    sourceColumns: string[],
+    { addressMapping: mapping, coordinates }: Pick<BatchFileSettings, "addressMapping" | "coordinates">
+  ): ExportOptions => ({
+    format: exportFormat,
+    mode,
+    coordinateFormat,
+    coordinateColumns: coordinates,
+    outputEncoding,
+    includeMissing: missingGeometry === "null",
+    derivedColumns,
+    outputSchema,
+    outputLayout: {
+      sourceColumns,
+      // In reverse mode the coordinate columns stand where the address would
+      addressColumns:
+        mode === "forward"
+          ? mappedColumns(mapping)
+          : [coordinates.latColumn, coordinates.lngColumn, coordinates.latLonColumn],
+    },
+    nameColumn: placemarkNameColumn,
+    descriptionColumn: placemarkDescriptionColumn,
+    documentName,
+  })
+
+  // The active file's rows may have been edited since the run, so they come from the editor state
+  const processedEntries = useMemo(
+    () =>
+      batch
+        .map((entry, i) =>
+          i === activeIndex && entry.result ? { ...entry, result: { ...entry.result, rows: data } } : entry
+        )
+        .filter((entry) => entry.result),
+    [batch, activeIndex, data]
+  )
+  const batchSummary = useMemo(() => buildBatchSummary(processedEntries, STATUS_ORDER), [processedEntries])
+
+  // Filters the results to one kind of flagged row and pages to `row` (or the first of them)
+  const showFlaggedRows = (flag: QualityFlag, row?: number) => {
+    const rows = Array.from(flaggedRows.get(flag) ?? []).sort((a, b) => a - b)
+    setResultStatusFilter(`${QUALITY_FILTER_PREFIX}${flag}`)
+    setResultQuery("")
+    setResultSort(null)
+    setResultPage(row === undefined ? 0 : Math.floor(rows.indexOf(row) / RESULT_PAGE_SIZE))
+    setHighlightedRow(row ?? null)
+    resultsRef.current?.scrollIntoView({ behavior: "smooth", block: "start" })
+  }
+
+  const handleDownloadQualityReport = (format: "csv" | "json") => {
+    const name = `${stripSourceExtension(file?.name || "data.csv")}_quality.${format}`
+    if (format === "json") {
+      downloadFile(qualityReportToJson(qualityReport), name, "application/json;charset=utf-8")
+    } else {
+      downloadFile(
+        encodeText(qualityReportToCsv(qualityReport), outputEncoding),
+        name,
+        `text/csv;charset=${outputCharset(outputEncoding)}`
+      )
+    }
+  }
+
+  const handleDownload = async () => {
     if (data.length === 0) {
       setError("ダウンロードするデータがありません")
       return
     }
 
-    const csv = Papa.unparse(buildExportRows())
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" })
-    const link = document.createElement("a")
-    const url = URL.createObjectURL(blob)
-
     // Generate filename from original file name
     const originalFileName = file?.name || "data.csv"
-    const fileNameWithoutExt = originalFileName.replace(/\.csv$/i, "")
-    const downloadFileName = `${fileNameWithoutExt}_geocoded.csv`
+    const fileNameWithoutExt = stripSourceExtension(originalFileName)
+    const downloadFileName = `${fileNameWithoutExt}_geocoded.${selectedExportFormat.extension}`
+
+    try {
+      const content = await exportRows(
+        data,
+        exportOptionsFor(fileNameWithoutExt, columns, { addressMapping, coordinates: coordinateColumns })
+      )
+      const mimeType = textExport
+        ? selectedExportFormat.mimeType.replace(/charset=[^;]+/, `charset=${outputCharset(outputEncoding)}`)
+        : selectedExportFormat.mimeType
+
+      downloadFile(content, downloadFileName, mimeType)
+    } catch (err) {
+      setError(`ダウンロードに失敗しました: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  const handleSavePreset = async () => {
+    const name = presetName.trim()
+    if (!name) return
+    try {
+      await saveOutputPreset(name, outputSchema)
+      setOutputPresets(await loadOutputPresets())
+    } catch (err) {
+      setError(`プリセットを保存できませんでした: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  const handleDeletePreset = async (name: string) => {
+    try {
+      await deleteOutputPreset(name)
+      setOutputPresets(await loadOutputPresets())
+    } catch (err) {
+      setError(`プリセットを削除できませんでした: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  const handleExportPreset = () => {
+    const name = presetName.trim() || "output-schema"
+    downloadFile(JSON.stringify(outputSchema, null, 2), `${name}.json`, "application/json")
+  }
+
+  // Presets travel as JSON files, which the CLI also reads with --schema
+  const handleImportPreset = async (presetFile: File) => {
+    try {
+      setOutputSchema(parseOutputSchema(await presetFile.text()))
+      setPresetName(presetFile.name.replace(/\.json$/i, ""))
+    } catch (err) {
+      setError(`プリセットを読み込めませんでした: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  // Every processed file in the chosen format, plus the summary as CSV
+  const handleDownloadZip = async () => {
+    const entries = commitEditor()
+    setBatch(entries)
+    try {
+      const files: { name: string; content: BlobPart }[] = []
+      for (const entry of entries) {
+        if (!entry.result || entry.result.rows.length === 0) continue
+        const name = stripSourceExtension(entry.file.name)
+        files.push({
+          name: `${name}_geocoded.${selectedExportFormat.extension}`,
+          content: await exportRows(entry.result.rows, exportOptionsFor(name, entry.columns, entry.settings)),
+        })
+      }
+      files.push({
+        name: "summary.csv",
+        content: encodeText(summaryToCsv(buildBatchSummary(entries, STATUS_ORDER)), outputEncoding),
+      })
+      downloadFile(await buildZip(files), "geocoded_files.zip", "application/zip")
+    } catch (err) {
+      setError(`ZIP の作成に失敗しました: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  const copyToClipboard = async (text: string, target: "results" | "single") => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopiedTarget(target)
+      setTimeout(() => setCopiedTarget((current) => (current === target ? null : current)), 2000)
+    } catch (err) {
+      setError(`クリップボードにコピーできませんでした: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
 
-    link.setAttribute("href", url)
-    link.setAttribute("download", downloadFileName)
-    link.style.visibility = "hidden"
+  // TSV goes straight into a spreadsheet; the column names, precision and extra columns follow the export settings
+  const exportTsv = async (rows: GeocodedRow[], options: ExportOptions) =>
+    new Blob([await exportRows(rows, { ...options, format: "tsv", outputEncoding: "utf-8" })]).text()
 
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
+  const handleCopyResults = async () => {
+    try {
+      const options = exportOptionsFor(stripSourceExtension(file?.name || "data.csv"), columns, {
+        addressMapping,
+        coordinates: coordinateColumns,
+      })
+      await copyToClipboard(await exportTsv(data, options), "results")
+    } catch (err) {
+      setError(`コピーに失敗しました: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  const handleSingleLookup = async () => {
+    const address = normalizeAddress(singleAddress, normalizationRules)
+    if (!address) return
+    if (!geocoderReady) {
+      setError("ジオコーディングサービスがロード中です。お待ちください...")
+      return
+    }
+
+    setError("")
+    setSingleLoading(true)
+    try {
+      const { geocodedRows } = await geocodeAddresses(
+        [{ 住所: singleAddress }],
+        [address],
+        { minMatchLevel, fallback },
+        lookupAddress,
+        createQueueRunner({ concurrency: 1, requestsPerSecond: 0 })
+      )
+      setSingleResult(geocodedRows[0])
+    } catch (err) {
+      setError(`検索エラー: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      refreshCacheCount()
+      setSingleLoading(false)
+    }
+  }
+
+  const handleCopySingle = async () => {
+    if (!singleResult) return
+    try {
+      const options = exportOptionsFor("address", ["住所"], {
+        addressMapping: mappingFromColumns(["住所"]),
+        coordinates: coordinateColumns,
+      })
+      await copyToClipboard(await exportTsv([singleResult], options), "single")
+    } catch (err) {
+      setError(`コピーに失敗しました: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  const projectSettings = (): ProjectSettings => ({
+    mode,
+    shareSettings,
+    providerId,
+    nominatimUrl,
+    minMatchLevel,
+    normalizationRules,
+    fallback,
+    concurrency,
+    requestsPerSecond,
+    retry: retryOptions,
+    useCache,
+    cacheTtlDays,
+    exportFormat,
+    coordinateFormat,
+    outputEncoding,
+    missingGeometry,
+    derivedColumns,
+    outputSchema,
+    placemarkNameColumn,
+    placemarkDescriptionColumn,
+  })
+
+  // The queued files with their settings and results, so that the work can continue elsewhere
+  const handleSaveProject = async () => {
+    const entries = commitEditor()
+    setBatch(entries)
+    try {
+      const content = await saveProject({
+        settings: projectSettings(),
+        view: { statusFilter: resultStatusFilter, query: resultQuery, sort: resultSort, page: resultPage },
+        activeIndex,
+        entries,
+      })
+      const name = stripSourceExtension(entries[activeIndex]?.file.name || "project")
+      downloadFile(content, `${name}.${PROJECT_FILE_EXTENSION}`, "application/zip")
+    } catch (err) {
+      setError(`プロジェクトを保存できませんでした: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  // Replaces the queue and every setting with those of the project
+  const handleOpenProject = async (projectFile: File) => {
+    try {
+      const { settings, view, activeIndex: index, entries } = await openProject(projectFile)
+      setMode(settings.mode)
+      setShareSettings(settings.shareSettings)
+      setProviderId(settings.providerId)
+      setNominatimUrl(settings.nominatimUrl)
+      setMinMatchLevel(settings.minMatchLevel)
+      setNormalizationRules(settings.normalizationRules)
+      setFallback(settings.fallback)
+      setConcurrency(settings.concurrency)
+      setRequestsPerSecond(settings.requestsPerSecond)
+      setRetryOptions(settings.retry)
+      setUseCache(settings.useCache)
+      setCacheTtlDays(settings.cacheTtlDays)
+      setExportFormat(settings.exportFormat)
+      setCoordinateFormat(settings.coordinateFormat)
+      setOutputEncoding(settings.outputEncoding)
+      setMissingGeometry(settings.missingGeometry)
+      setDerivedColumns(settings.derivedColumns)
+      setOutputSchema(settings.outputSchema)
+      setPlacemarkNameColumn(settings.placemarkNameColumn)
+      setPlacemarkDescriptionColumn(settings.placemarkDescriptionColumn)
+
+      const restored: BatchEntry[] = entries.map((entry) => ({ ...entry, id: nextEntryIdRef.current++, resume: false }))
+      setBatch(restored)
+      setActiveIndex(index)
+      setError("")
+      setProgress(0)
+      setRunCount((count) => count + 1)
+      showEntry(restored[index])
+      setResultStatusFilter(view.statusFilter)
+      setResultQuery(view.query)
+      setResultSort(view.sort)
+      setResultPage(view.page)
+    } catch (err) {
+      setError(`プロジェクトを開けませんでした: ${err instanceof Error ? err.message : String(err)}`)
+    }
   }
 
   return (
@@ -259,7 +1258,11 @@ export default function Home() {
         {/* Header */}
         <div className="text-center mb-8">
           <h1 className="text-3xl font-bold text-gray-900 mb-2">住所 → 緯度経度 変換ツール</h1>
-          <p className="text-gray-600">CSVファイルの住所データを緯度・経度に変換できます</p>
+          <p className="text-gray-600">
+            {mode === "forward"
+              ? "CSVファイルの住所データを緯度・経度に変換できます"
+              : "CSVファイルの緯度・経度から住所を求めます"}
+          </p>
         </div>
 
         {/* Main Card */}
@@ -272,120 +1275,775 @@ export default function Home() {
           )}
 
           {/* Success Alert */}
-          {success && (
+          {success && !cancelled && (
             <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded text-green-700">
               ✓ ジオコーディング完了！{data.length}件の住所を処理しました。
             </div>
           )}
+          {success && cancelled && (
+            <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded text-yellow-800">
+              処理をキャンセルしました。{data.filter((row) => row.geocoding_status !== "未処理").length} / {data.length} 件が処理済みです。未処理の行は「未処理」としてダウンロードできます。
+            </div>
+          )}
+
+          {/* Interrupted Job */}
+          {checkpoint && !loading && (
+            <div className="mb-4 p-4 bg-blue-50 border border-blue-200 rounded text-blue-800">
+              <p className="text-sm">
+                {resumeMatched
+                  ? "中断されたジョブと同じファイルです。「続きから再開」を押すと未処理の行から処理を再開します。"
+                  : `前回中断されたジョブがあります（${checkpoint.fileName}、開始: ${new Date(
+                      checkpoint.startedAt
+                    ).toLocaleString()}）。再開するには同じファイルを選択してください。`}
+              </p>
+              <button
+                onClick={handleDiscardCheckpoint}
+                className="mt-2 px-3 py-1 rounded text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-100 transition"
+              >
+                中断されたジョブを破棄
+              </button>
+            </div>
+          )}
+
+          {/* Mode Selection */}
+          <div className="mb-6 grid grid-cols-2 gap-2">
+            {(
+              [
+                ["forward", "住所 → 緯度経度"],
+                ["reverse", "緯度経度 → 住所"],
+              ] as const
+            ).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => {
+                  setMode(value)
+                  setBatch((entries) => entries.map((entry) => ({ ...entry, result: null })))
+                  setData([])
+                  setSuccess(false)
+                  setError("")
+                }}
+                disabled={loading}
+                className={`py-2 px-4 rounded-lg text-sm font-medium transition ${
+                  mode === value ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
 
           {/* File Upload Section */}
           <div className="mb-6">
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              CSVファイルをアップロード
-            </label>
-            <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center hover:border-blue-400 transition">
-              <input
-                type="file"
-                accept=".csv"
-                onChange={handleFileChange}
-                className="hidden"
-                id="file-input"
-              />
-              <label htmlFor="file-input" className="cursor-pointer">
-                <p className="text-gray-600">
-                  {file ? `📄 ${file.name}` : "クリックするか、ファイルをドラッグ＆ドロップ"}
-                </p>
-                <p className="text-sm text-gray-500 mt-1">CSVファイルのみ対応</p>
-              </label>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+              <label className="block text-sm font-medium text-gray-700">データを追加</label>
+              <div className="flex items-center gap-2 text-sm">
+                <label
+                  className={`px-3 py-1 rounded border border-gray-300 text-gray-700 ${
+                    loading ? "opacity-50" : "cursor-pointer hover:bg-gray-100"
+                  }`}
+                >
+                  プロジェクトを開く
+                  <input
+                    type="file"
+                    accept={`.${PROJECT_FILE_EXTENSION},.zip`}
+                    onChange={(e) => {
+                      const projectFile = e.target.files?.[0]
+                      if (projectFile) handleOpenProject(projectFile)
+                      e.target.value = ""
+                    }}
+                    disabled={loading}
+                    className="hidden"
+                  />
+                </label>
+                <button
+                  onClick={handleSaveProject}
+                  disabled={loading || batch.length === 0}
+                  className="px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:hover:bg-transparent"
+                >
+                  プロジェクトを保存
+                </button>
+              </div>
+            </div>
+            <div className="mb-3 flex gap-2 text-sm">
+              {(
+                [
+                  ["file", "ファイル"],
+                  ["paste", "貼り付け"],
+                  ["single", "1件だけ検索"],
+                ] as const
+              )
+                .filter(([value]) => value !== "single" || mode === "forward")
+                .map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => setInputMode(value)}
+                    className={`px-3 py-1 rounded-full border transition ${
+                      activeInputMode === value
+                        ? "border-blue-600 bg-blue-600 text-white"
+                        : "border-gray-300 text-gray-700 hover:bg-gray-100"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
             </div>
+            {activeInputMode === "file" && (
+              <div
+                onDragOver={(e) => {
+                  e.preventDefault()
+                  if (!loading) setDragActive(true)
+                }}
+                onDragLeave={() => setDragActive(false)}
+                onDrop={(e) => {
+                  e.preventDefault()
+                  setDragActive(false)
+                  if (!loading) addFiles(Array.from(e.dataTransfer.files))
+                }}
+                className={`border-2 border-dashed rounded-lg p-6 text-center hover:border-blue-400 transition ${
+                  dragActive ? "border-blue-500 bg-blue-50" : "border-gray-300"
+                }`}
+              >
+                <input
+                  type="file"
+                  accept={SOURCE_FILE_ACCEPT}
+                  multiple
+                  onChange={(e) => {
+                    addFiles(Array.from(e.target.files ?? []))
+                    // Lets the same file be chosen again after it was removed
+                    e.target.value = ""
+                  }}
+                  disabled={loading}
+                  className="hidden"
+                  id="file-input"
+                />
+                <label htmlFor="file-input" className="cursor-pointer">
+                  <p className="text-gray-600">クリックするか、ファイルをドラッグ＆ドロップ（複数可）</p>
+                  <p className="text-sm text-gray-500 mt-1">CSV / TSV / テキスト / Excel (.xlsx) に対応</p>
+                </label>
+              </div>
+            )}
+            {activeInputMode === "paste" && (
+              <div>
+                <textarea
+                  value={pastedText}
+                  onChange={(e) => setPastedText(e.target.value)}
+                  disabled={loading}
+                  rows={6}
+                  placeholder={"住所を 1 行に 1 件ずつ、またはスプレッドシートからコピーした表（見出し行は自動判定）を貼り付け\n東京都新宿区西新宿2-8-1\n北海道札幌市中央区北1条西2丁目"}
+                  className="w-full p-3 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  onClick={handleAddPasted}
+                  disabled={loading || !pastedText.trim()}
+                  className="mt-2 px-4 py-2 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+                >
+                  一覧に追加
+                </button>
+                <p className="text-xs text-gray-600 mt-1">
+                  追加したデータはファイルと同じく列の設定・変換・ダウンロードができます
+                </p>
+              </div>
+            )}
+            {activeInputMode === "single" && (
+              <div>
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault()
+                    handleSingleLookup()
+                  }}
+                  className="flex gap-2"
+                >
+                  <input
+                    type="text"
+                    value={singleAddress}
+                    onChange={(e) => setSingleAddress(e.target.value)}
+                    placeholder="東京都新宿区西新宿2-8-1"
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <button
+                    type="submit"
+                    disabled={singleLoading || !singleAddress.trim() || !geocoderReady}
+                    className="px-4 py-2 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+                  >
+                    {singleLoading ? "検索中..." : "検索"}
+                  </button>
+                </form>
+                {singleResult && (
+                  <div className="mt-3 border border-gray-300 rounded-lg p-3 text-sm">
+                    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+                      {SINGLE_RESULT_FIELDS.filter(({ column }) => !isBlank(singleResult[column])).map(
+                        ({ column, label }) => (
+                          <div key={column} className="contents">
+                            <dt className="text-gray-500">{label}</dt>
+                            <dd className="text-gray-900">
+                              {column === "geocoding_level"
+                                ? formatMatchLevel(Number(singleResult[column]))
+                                : String(singleResult[column])}
+                            </dd>
+                          </div>
+                        )
+                      )}
+                    </dl>
+                    <button
+                      onClick={handleCopySingle}
+                      className="mt-3 px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+                    >
+                      {copiedTarget === "single" ? "コピーしました" : "TSV でコピー"}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+            {batch.length > 0 && (
+              <ul className="mt-3 divide-y divide-gray-200 border border-gray-300 rounded-lg text-sm">
+                {batch.map((entry, i) => (
+                  <li
+                    key={entry.id}
+                    className={`flex items-center gap-3 px-3 py-2 ${i === activeIndex ? "bg-blue-50" : ""}`}
+                  >
+                    <button
+                      onClick={() => handleSelectEntry(i)}
+                      disabled={loading}
+                      className={`flex-1 text-left truncate ${
+                        i === activeIndex ? "font-medium text-blue-800" : "text-gray-700 hover:text-blue-700"
+                      }`}
+                    >
+                      📄 {entry.file.name}
+                    </button>
+                    <span className="text-xs text-gray-500 whitespace-nowrap">
+                      {entry.result
+                        ? entry.result.error
+                          ? "エラー"
+                          : `${entry.result.rows.length.toLocaleString()} 行${entry.result.cancelled ? "（中断）" : ""}`
+                        : entry.resume
+                          ? "再開待ち"
+                          : "未処理"}
+                    </span>
+                    <button
+                      onClick={() => handleRemoveEntry(i)}
+                      disabled={loading}
+                      title="一覧から外す"
+                      className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                    >
+                      ✕
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {batch.length > 1 && (
+              <div className="mt-2 text-xs text-gray-600 space-y-1">
+                <p>ファイル名をクリックすると、そのファイルの文字コードや列の設定・変換結果を表示します。</p>
+                <label className="inline-flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={shareSettings}
+                    onChange={(e) => setShareSettings(e.target.checked)}
+                    disabled={loading}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
+                  />
+                  見出し（列名と並び）が同じファイルは列の設定を共有する
+                </label>
+              </div>
+            )}
           </div>
 
           {/* Input Encoding Selection */}
-          {file && (
+          {file && sourceKindOf(file) === "delimited" && (
+            <div className="mb-6 grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">入力ファイルの文字コード</label>
+                <select
+                  value={inputEncoding}
+                  onChange={(e) => handleSourceOptionChange({ encoding: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {INPUT_ENCODINGS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                      {detectedEncoding?.encoding === option.value &&
+                        `（自動判定${detectedEncoding.bom ? "・BOM付き" : ""}）`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">区切り文字</label>
+                <select
+                  value={delimiter}
+                  onChange={(e) => handleSourceOptionChange({ delimiter: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {DELIMITER_OPTIONS.map((option) => (
+                    <option key={option.label} value={option.value}>
+                      {option.value === "" && detectedDelimiter
+                        ? `${option.label}（${
+                            DELIMITER_OPTIONS.find((o) => o.value === detectedDelimiter)?.label ?? detectedDelimiter
+                          }）`
+                        : option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          {/* Sheet Selection */}
+          {file && sourceKindOf(file) === "xlsx" && (
+            <div className="mb-6 grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">シート</label>
+                <select
+                  value={sheetName || sheetNames[0] || ""}
+                  onChange={(e) => handleSourceOptionChange({ sheetName: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {sheetNames.map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">見出し行（行番号）</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={headerRow}
+                  onChange={(e) => handleSourceOptionChange({ headerRow: Math.max(1, Number(e.target.value) || 1) })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Address Column Roles */}
+          {columns.length > 0 && mode === "forward" && (
             <div className="mb-6">
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                入力ファイルの文字コード
+                住所の列と役割（上から順に結合します）
               </label>
-              <select
-                value={inputEncoding}
-                onChange={(e) => {
-                  setInputEncoding(e.target.value)
-                  // Re-read file with new encoding
-                  const reader = new FileReader()
-                  reader.onload = (event) => {
-                    try {
-                      const arrayBuffer = event.target?.result as ArrayBuffer
-                      const decoder = new TextDecoder(e.target.value)
-                      const text = decoder.decode(arrayBuffer)
-
-                      Papa.parse(text, {
-                        header: true,
-                        skipEmptyLines: true,
-                        complete: (results) => {
-                          if (results.data.length > 0) {
-                            const cols = Object.keys(results.data[0] as Record<string, unknown>)
-                            setColumns(cols)
-                            setAddressColumns([cols[0] || ""])
-                          }
-                        },
-                        error: (error: { message: string }) => {
-                          setError(`CSVの読み込みエラー: ${error.message}`)
-                        },
-                      })
-                    } catch (err) {
-                      setError(`ファイル読み込みエラー: ${err instanceof Error ? err.message : String(err)}`)
-                    }
-                  }
-                  reader.readAsArrayBuffer(file)
-                }}
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              >
-                <option value="UTF-8">UTF-8</option>
-                <option value="Shift_JIS">Shift_JIS (シフトJIS)</option>
-              </select>
+              <div className="overflow-x-auto">
+                <table className="min-w-full border-collapse text-sm">
+                  <thead>
+                    <tr className="bg-gray-100">
+                      {["順序", "役割", "列", "前に入れる区切り文字"].map((label) => (
+                        <th
+                          key={label}
+                          className="border border-gray-300 px-3 py-2 text-left font-medium text-gray-700 whitespace-nowrap"
+                        >
+                          {label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {addressMapping.map((part, i) => (
+                      <tr key={part.role}>
+                        <td className="border border-gray-300 px-2 py-1 whitespace-nowrap">
+                          {([-1, 1] as const).map((offset) => (
+                            <button
+                              key={offset}
+                              onClick={() => setAddressMapping(moveRole(addressMapping, part.role, offset))}
+                              disabled={loading || i + offset < 0 || i + offset >= addressMapping.length}
+                              title={offset < 0 ? "上へ" : "下へ"}
+                              className="px-2 py-1 text-gray-600 hover:text-blue-700 disabled:text-gray-300"
+                            >
+                              {offset < 0 ? "↑" : "↓"}
+                            </button>
+                          ))}
+                        </td>
+                        <td className="border border-gray-300 px-3 py-1 text-gray-700 whitespace-nowrap">
+                          {addressRoleLabel(part.role)}
+                        </td>
+                        <td className="border border-gray-300 px-2 py-1">
+                          <select
+                            value={part.column}
+                            onChange={(e) => setAddressMapping(assignColumn(addressMapping, part.role, e.target.value))}
+                            disabled={loading}
+                            className="w-full min-w-[10rem] px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          >
+                            <option value="">（使わない）</option>
+                            {columns.map((col) => (
+                              <option key={col} value={col}>
+                                {columnScoreByName.get(col)?.score ? `${col}（${columnScoreByName.get(col)?.score}点）` : col}
+                              </option>
+                            ))}
+                          </select>
+                          {part.column && columnScoreByName.has(part.column) && (
+                            <p
+                              title={columnScoreByName.get(part.column)?.reasons.join("、")}
+                              className="text-xs text-gray-500 mt-1 max-w-xs truncate"
+                            >
+                              {columnScoreByName.get(part.column)?.score}点・例:{" "}
+                              {columnScoreByName.get(part.column)?.sample || "（空）"}
+                            </p>
+                          )}
+                        </td>
+                        <td className="border border-gray-300 px-2 py-1">
+                          {GEOCODED_ROLES.includes(part.role) ? (
+                            <input
+                              value={part.separator}
+                              onChange={(e) =>
+                                setAddressMapping(
+                                  addressMapping.map((other) =>
+                                    other.role === part.role ? { ...other, separator: e.target.value } : other
+                                  )
+                                )
+                              }
+                              disabled={loading}
+                              placeholder="なし"
+                              className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                          ) : (
+                            <span className="text-xs text-gray-500">
+                              {part.role === "postalCode" ? "都道府県の照合に使用" : "住所には含めません"}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {previewRows.length > 0 && hasGeocodedColumn(addressMapping) && (
+                <div className="text-xs text-gray-600 mt-2">
+                  組み立てた住所の例（正規化前）:
+                  <ul className="mt-1 space-y-0.5">
+                    {previewRows.slice(0, EXAMPLE_ROW_COUNT).map((row, i) => (
+                      <li key={i} className="font-mono text-gray-800">
+                        {buildAddress(row, addressMapping) || "（空）"}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <details className="mt-2 text-xs text-gray-600">
+                <summary className="cursor-pointer">列の自動判定（列名と先頭 {previewRows.length} 行の値から採点）</summary>
+                <div className="overflow-x-auto mt-2">
+                  <table className="min-w-full border-collapse">
+                    <thead>
+                      <tr className="bg-gray-100">
+                        {["列", "推定した役割", "スコア", "値の例", "根拠"].map((label) => (
+                          <th key={label} className="border border-gray-300 px-2 py-1 text-left font-medium whitespace-nowrap">
+                            {label}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {columnScores.map((candidate) => (
+                        <tr key={candidate.column} className={candidate.score >= MIN_SUGGESTED_SCORE ? "" : "text-gray-400"}>
+                          <td className="border border-gray-300 px-2 py-1 whitespace-nowrap">{candidate.column}</td>
+                          <td className="border border-gray-300 px-2 py-1 whitespace-nowrap">
+                            {candidate.role ? addressRoleLabel(candidate.role) : "-"}
+                          </td>
+                          <td className="border border-gray-300 px-2 py-1 text-right">{candidate.score}</td>
+                          <td className="border border-gray-300 px-2 py-1 max-w-xs truncate" title={candidate.sample}>
+                            {candidate.sample}
+                          </td>
+                          <td className="border border-gray-300 px-2 py-1">{candidate.reasons.join("、")}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <button
+                  onClick={() => setAddressMapping(guessAddressMapping(columns, previewRows))}
+                  disabled={loading}
+                  className="mt-2 px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+                >
+                  判定結果で列を選び直す
+                </button>
+              </details>
+              <p className="text-xs text-gray-600 mt-2">
+                郵便番号は変換結果の都道府県との照合に使い、一致しない行に「〒不一致」を付けます。建物名・部屋番号はジオコーダーに渡しません
+              </p>
             </div>
           )}
 
-          {/* Column Selection */}
-          {columns.length > 0 && (
+          {/* Coordinate Column Selection */}
+          {columns.length > 0 && mode === "reverse" && (
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">緯度経度が含まれている列を選択</label>
+              <div className="flex flex-wrap gap-4 mb-3 text-sm text-gray-700">
+                <label className="inline-flex items-center gap-1 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="coordinate-input"
+                    checked={coordinateInput === "separate"}
+                    onChange={() => setCoordinateInput("separate")}
+                    className="text-blue-600 focus:ring-blue-500"
+                  />
+                  2列（緯度 / 経度）
+                </label>
+                <label className="inline-flex items-center gap-1 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="coordinate-input"
+                    checked={coordinateInput === "combined"}
+                    onChange={() => setCoordinateInput("combined")}
+                    className="text-blue-600 focus:ring-blue-500"
+                  />
+                  1列（緯度, 経度）
+                </label>
+              </div>
+              {coordinateInput === "separate" ? (
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                  {(
+                    [
+                      ["緯度の列", latColumn, setLatColumn],
+                      ["経度の列", lngColumn, setLngColumn],
+                    ] as const
+                  ).map(([label, value, setValue]) => (
+                    <div key={label}>
+                      <span className="block text-xs text-gray-600 mb-1">{label}</span>
+                      <select
+                        value={value}
+                        onChange={(e) => setValue(e.target.value)}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="">選択してください</option>
+                        {columns.map((col) => (
+                          <option key={col} value={col}>
+                            {col}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <select
+                  value={latLonColumn}
+                  onChange={(e) => setLatLonColumn(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">選択してください</option>
+                  {columns.map((col) => (
+                    <option key={col} value={col}>
+                      {col}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <p className="text-xs text-gray-600 mt-2">
+                空欄・数値でない値・範囲外の座標の行は「スキップ」になります
+              </p>
+            </div>
+          )}
+
+          {/* Address Normalization */}
+          {columns.length > 0 && mode === "forward" && (
             <div className="mb-6">
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                住所が含まれている列を選択（複数選択可能）
+                住所の正規化（ジオコーディング前に適用）
               </label>
               <div className="space-y-2 p-3 border border-gray-300 rounded-lg bg-gray-50">
-                {columns.map((col) => (
-                  <label key={col} className="flex items-center cursor-pointer">
+                {NORMALIZATION_RULES.map((rule) => (
+                  <label key={rule.id} className="flex items-center cursor-pointer">
                     <input
                       type="checkbox"
-                      checked={addressColumns.includes(col)}
+                      checked={normalizationRules.includes(rule.id)}
                       onChange={(e) => {
                         if (e.target.checked) {
-                          setAddressColumns([...addressColumns, col])
+                          setNormalizationRules([...normalizationRules, rule.id])
                         } else {
-                          setAddressColumns(addressColumns.filter((c) => c !== col))
+                          setNormalizationRules(normalizationRules.filter((id) => id !== rule.id))
                         }
                       }}
+                      disabled={loading}
                       className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
                     />
-                    <span className="ml-2 text-sm text-gray-700">{col}</span>
+                    <span className="ml-2 text-sm text-gray-700">{rule.label}</span>
                   </label>
                 ))}
               </div>
-              {addressColumns.length > 0 && (
-                <p className="text-xs text-gray-600 mt-2">
-                  選択中: {addressColumns.join(" + ")}
-                </p>
-              )}
             </div>
           )}
 
+          {/* Geocoding Provider */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              ジオコーディングサービス
+            </label>
+            <select
+              value={providerId}
+              onChange={(e) => {
+                setProviderId(e.target.value as ProviderId)
+                setError("")
+              }}
+              disabled={loading}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {PROVIDER_OPTIONS.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {providerId === "nominatim" && (
+              <input
+                type="url"
+                value={nominatimUrl}
+                onChange={(e) => setNominatimUrl(e.target.value)}
+                disabled={loading}
+                placeholder={DEFAULT_NOMINATIM_URL}
+                className="w-full mt-2 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            )}
+            {mode === "reverse" && !provider.reverseGeocode && (
+              <p className="text-xs text-red-600 mt-2">
+                このサービスは緯度経度からの住所検索に対応していません。国土地理院・Nominatim・モックを選択してください
+              </p>
+            )}
+          </div>
+
+          {/* Minimum Match Level */}
+          {columns.length > 0 && mode === "forward" && (
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                成功とみなす最低一致レベル
+              </label>
+              <select
+                value={minMatchLevel}
+                onChange={(e) => setMinMatchLevel(Number(e.target.value))}
+                disabled={loading}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {[1, 2, 3].map((level) => (
+                  <option key={level} value={level}>
+                    {formatMatchLevel(level)}以上
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-600 mt-2">
+                これより粗い一致（例: 都道府県の代表点）は「低精度」として区別されます
+              </p>
+              <label className="mt-3 inline-flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={fallback}
+                  onChange={(e) => setFallback(e.target.checked)}
+                  disabled={loading}
+                  className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
+                />
+                見つからない住所を段階的に粗くして再検索する
+              </label>
+              <p className="text-xs text-gray-600 mt-1">
+                {FALLBACK_STEPS.map(({ label }, i) => `${i + 1}: ${label}`).join(" → ")}
+                。どの段階で見つかったかを fallback_level 列（0 は元の住所）に、検索した住所を fallback_address 列に出力します
+              </p>
+            </div>
+          )}
+
+          {/* Throughput Settings */}
+          <div className="mb-6 grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">同時リクエスト数</label>
+              <input
+                type="number"
+                min={1}
+                max={32}
+                value={concurrency}
+                onChange={(e) => setConcurrency(Math.max(1, Number(e.target.value) || 1))}
+                disabled={loading}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                1秒あたりの最大リクエスト数（0 で無制限）
+              </label>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={requestsPerSecond}
+                onChange={(e) => setRequestsPerSecond(Math.max(0, Number(e.target.value) || 0))}
+                disabled={loading}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                通信エラー・タイムアウト時の再試行回数
+              </label>
+              <input
+                type="number"
+                min={0}
+                max={10}
+                value={retryOptions.retries}
+                onChange={(e) =>
+                  setRetryOptions({ ...retryOptions, retries: Math.min(10, Math.max(0, Number(e.target.value) || 0)) })
+                }
+                disabled={loading}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                1件あたりのタイムアウト（秒、0 で無制限）
+              </label>
+              <input
+                type="number"
+                min={0}
+                value={retryOptions.timeoutMs / 1000}
+                onChange={(e) =>
+                  setRetryOptions({ ...retryOptions, timeoutMs: Math.max(0, Number(e.target.value) || 0) * 1000 })
+                }
+                disabled={loading}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          {/* Geocode Cache */}
+          <div className="mb-6 p-3 border border-gray-300 rounded-lg bg-gray-50">
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+              <label className="inline-flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={useCache}
+                  onChange={(e) => setUseCache(e.target.checked)}
+                  disabled={loading}
+                  className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
+                />
+                キャッシュを使用
+              </label>
+              <label className="inline-flex items-center gap-2">
+                有効期限
+                <input
+                  type="number"
+                  min={1}
+                  value={cacheTtlDays}
+                  onChange={(e) => setCacheTtlDays(Math.max(1, Number(e.target.value) || 1))}
+                  disabled={loading || !useCache}
+                  className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                日
+              </label>
+              <span className="text-gray-600">
+                保存件数: {cacheCount === null ? "-" : `${cacheCount.toLocaleString()} 件`}
+              </span>
+              <button
+                onClick={handleClearCache}
+                disabled={loading || !cacheCount}
+                className="ml-auto px-3 py-1 rounded text-sm font-medium text-gray-700 bg-gray-200 hover:bg-gray-300 disabled:opacity-50 transition"
+              >
+                キャッシュを削除
+              </button>
+            </div>
+          </div>
+
           {/* Process Button */}
           <div className="mb-6">
             <button
               onClick={handleProcess}
-              disabled={!file || addressColumns.length === 0 || loading || !geocoderReady}
+              disabled={!file || !columnsSelected || loading || !geocoderReady}
               className={`w-full py-3 px-4 rounded-lg font-medium text-white transition ${
-                loading || !file || addressColumns.length === 0 || !geocoderReady
+                loading || !file || !columnsSelected || !geocoderReady
                   ? "bg-gray-400 cursor-not-allowed"
                   : "bg-blue-600 hover:bg-blue-700"
               }`}
@@ -393,78 +2051,408 @@ export default function Home() {
               {!geocoderReady
                 ? "ジオコーディングサービスをロード中..."
                 : loading
-                  ? `処理中... (${progress}%)`
-                  : "変換実行"}
+                  ? jobState === "paused"
+                    ? `一時停止中 (${progress}%)`
+                    : jobPhase === "reading"
+                      ? `ファイルを読み込み中... (${progress}%)`
+                      : `処理中... (${progress}%)`
+                  : resumeMatched
+                    ? "続きから再開"
+                    : "変換実行"}
             </button>
           </div>
 
           {/* Progress Bar */}
           {loading && (
             <div className="mb-6">
-              <div className="w-full bg-gray-200 rounded-full h-2">
-                <div
-                  className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${progress}%` }}
-                />
+              <div className="flex items-center gap-3">
+                <div className="flex-1 bg-gray-200 rounded-full h-2">
+                  <div
+                    className={`h-2 rounded-full transition-all duration-300 ${
+                      jobState === "paused" ? "bg-yellow-500" : "bg-blue-600"
+                    }`}
+                    style={{ width: `${progress}%` }}
+                  />
+                </div>
+                {jobState === "paused" ? (
+                  <button
+                    onClick={handleResume}
+                    className="px-3 py-1 rounded text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition"
+                  >
+                    再開
+                  </button>
+                ) : (
+                  <button
+                    onClick={handlePause}
+                    disabled={jobState !== "running" || jobPhase === "reading"}
+                    className="px-3 py-1 rounded text-sm font-medium text-gray-700 bg-gray-200 hover:bg-gray-300 disabled:opacity-50 transition"
+                  >
+                    一時停止
+                  </button>
+                )}
+                <button
+                  onClick={handleCancel}
+                  disabled={jobState === "idle" || jobState === "cancelling"}
+                  className="px-3 py-1 rounded text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 transition"
+                >
+                  キャンセル
+                </button>
+              </div>
+              {batchProgress && batchProgress.total > 1 && (
+                <p className="text-xs text-gray-600 mt-2">
+                  ファイル {batchProgress.current} / {batchProgress.total}: {batchProgress.fileName}
+                </p>
+              )}
+              {jobProgress && jobPhase === "reading" && (
+                <p className="text-xs text-gray-600 mt-2">
+                  {formatMegabytes(jobProgress.processed)} / {formatMegabytes(jobProgress.total)} MB 読み込み済み
+                  {jobState === "cancelling" && " ・ 読み込みを中止しています..."}
+                </p>
+              )}
+              {jobProgress && jobPhase === "geocoding" && (
+                <p className="text-xs text-gray-600 mt-2">
+                  {jobProgress.processed.toLocaleString()} / {jobProgress.total.toLocaleString()} 件（重複を除いた住所数）
+                  {" ・ "}
+                  {jobProgress.rate.toFixed(1)} 件/秒
+                  {" ・ "}
+                  残り {jobProgress.etaMs === null ? "計算中..." : `約${formatDuration(jobProgress.etaMs)}`}
+                  {jobState === "cancelling" && " ・ 実行中のリクエストの完了を待っています..."}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Batch Summary */}
+          {batch.length > 1 && processedEntries.length > 0 && !loading && (
+            <div className="mb-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-3">ファイルごとの集計</h3>
+              <div className="overflow-x-auto">
+                <table className="min-w-full border-collapse text-sm">
+                  <thead>
+                    <tr className="bg-gray-100">
+                      {["ファイル", "行数", ...batchSummary.statuses, "備考"].map((label) => (
+                        <th
+                          key={label}
+                          className="border border-gray-300 px-3 py-2 text-left font-medium text-gray-700 whitespace-nowrap"
+                        >
+                          {label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {batchSummary.rows.map((row, i) => {
+                      // The last row is the total and has no file of its own
+                      const entry = processedEntries[i] as BatchEntry | undefined
+                      return (
+                        <tr key={entry?.id ?? "total"} className={entry ? "hover:bg-gray-50" : "bg-gray-50 font-medium"}>
+                          <td className="border border-gray-300 px-3 py-2">
+                            {entry ? (
+                              <button
+                                onClick={() => handleSelectEntry(batch.findIndex((other) => other.id === entry.id))}
+                                className={`text-left hover:underline ${
+                                  entry.id === batch[activeIndex]?.id ? "font-medium text-blue-800" : "text-blue-700"
+                                }`}
+                              >
+                                {row.ファイル}
+                              </button>
+                            ) : (
+                              row.ファイル
+                            )}
+                          </td>
+                          <td className="border border-gray-300 px-3 py-2 text-right">{row.行数.toLocaleString()}</td>
+                          {batchSummary.statuses.map((status) => (
+                            <td key={status} className="border border-gray-300 px-3 py-2 text-right">
+                              {Number(row[status]).toLocaleString()}
+                            </td>
+                          ))}
+                          <td className="border border-gray-300 px-3 py-2 text-red-700">{row.備考}</td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
               </div>
             </div>
           )}
 
-          {/* Results Preview */}
+          {/* Quality Report */}
           {data.length > 0 && !loading && (
             <div className="mb-6">
-              <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between mb-3">
-                <h3 className="text-lg font-medium text-gray-900">変換結果プレビュー</h3>
-                <div className="flex flex-wrap gap-4 text-sm text-gray-700">
-                  <span className="font-medium">緯度経度の格納形式:</span>
-                  <label className="inline-flex items-center gap-1 cursor-pointer">
-                    <input
-                      type="radio"
-                      name="coordinate-format"
-                      value="separate"
-                      checked={coordinateFormat === "separate"}
-                      onChange={() => setCoordinateFormat("separate")}
-                      className="text-blue-600 focus:ring-blue-500"
-                    />
-                    2列（緯度 / 経度）
-                  </label>
-                  <label className="inline-flex items-center gap-1 cursor-pointer">
-                    <input
-                      type="radio"
-                      name="coordinate-format"
-                      value="combined"
-                      checked={coordinateFormat === "combined"}
-                      onChange={() => setCoordinateFormat("combined")}
-                      className="text-blue-600 focus:ring-blue-500"
-                    />
-                    1列（緯度, 経度）
-                  </label>
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                <h3 className="text-lg font-medium text-gray-900">品質レポート</h3>
+                <div className="flex gap-2 text-sm">
+                  {(["csv", "json"] as const).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => handleDownloadQualityReport(format)}
+                      className="px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+                    >
+                      {format.toUpperCase()} でダウンロード
+                    </button>
+                  ))}
                 </div>
               </div>
+              <div className="grid gap-4 md:grid-cols-2 text-sm">
+                {[
+                  { title: "ステータス別", counts: qualityReport.statuses },
+                  { title: "一致レベル別", counts: qualityReport.levels },
+                ]
+                  .filter(({ counts }) => counts.length > 0)
+                  .map(({ title, counts }) => (
+                    <div key={title}>
+                      <p className="font-medium text-gray-700 mb-1">{title}</p>
+                      <table className="min-w-full border-collapse">
+                        <tbody>
+                          {counts.map(({ label, count }) => (
+                            <tr key={label}>
+                              <td className="border border-gray-300 px-3 py-1">{label}</td>
+                              <td className="border border-gray-300 px-3 py-1 text-right">
+                                {count.toLocaleString()}（{((count / qualityReport.total) * 100).toFixed(1)}%）
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ))}
+              </div>
+              {[
+                { title: "都道府県別", areas: qualityReport.prefectures },
+                { title: "市区町村別", areas: qualityReport.cities },
+              ].map(({ title, areas }) => (
+                <details key={title} className="mt-3 text-sm">
+                  <summary className="cursor-pointer font-medium text-gray-700">
+                    {title}（{areas.length} 件）
+                  </summary>
+                  <div className="max-h-64 overflow-y-auto mt-2">
+                    <table className="min-w-full border-collapse">
+                      <thead>
+                        <tr className="bg-gray-100">
+                          {["地域", "行数", "位置あり"].map((label) => (
+                            <th key={label} className="border border-gray-300 px-3 py-1 text-left font-medium text-gray-700">
+                              {label}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {areas.map(({ pref, city, count, located }) => (
+                          <tr key={`${pref}\t${city}`}>
+                            <td className="border border-gray-300 px-3 py-1">{`${pref}${city}` || "（不明）"}</td>
+                            <td className="border border-gray-300 px-3 py-1 text-right">{count.toLocaleString()}</td>
+                            <td className="border border-gray-300 px-3 py-1 text-right">{located.toLocaleString()}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </details>
+              ))}
+              <div className="mt-3 text-sm">
+                <p className="font-medium text-gray-700 mb-1">要確認の行</p>
+                {qualityReport.issues.length === 0 ? (
+                  <p className="text-gray-600">範囲外・外れ値・座標の重複は見つかりませんでした</p>
+                ) : (
+                  <>
+                    <div className="flex flex-wrap gap-2 mb-2">
+                      {QUALITY_FLAGS.filter(({ id }) => (flaggedRows.get(id)?.size ?? 0) > 0).map(({ id, label }) => (
+                        <button
+                          key={id}
+                          onClick={() => showFlaggedRows(id)}
+                          className="px-3 py-1 rounded bg-orange-100 text-orange-800 hover:bg-orange-200"
+                        >
+                          {label}: {flaggedRows.get(id)?.size} 件
+                        </button>
+                      ))}
+                    </div>
+                    <ul className="space-y-0.5 text-gray-700">
+                      {qualityReport.issues.slice(0, QUALITY_ISSUE_LIST_SIZE).map(({ row, flag, detail }) => (
+                        <li key={`${row}:${flag}`}>
+                          <button onClick={() => showFlaggedRows(flag, row)} className="text-blue-700 hover:underline">
+                            #{row + 1}
+                          </button>{" "}
+                          {qualityFlagLabel(flag)}（{detail}）
+                        </li>
+                      ))}
+                    </ul>
+                    {qualityReport.issues.length > QUALITY_ISSUE_LIST_SIZE && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        …他 {qualityReport.issues.length - QUALITY_ISSUE_LIST_SIZE} 件（上のボタンで結果を絞り込めます）
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Results Table */}
+          {data.length > 0 && !loading && (
+            <div ref={resultsRef} className="mb-6">
+              <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between mb-3">
+                <h3 className="text-lg font-medium text-gray-900">変換結果</h3>
+                {mode === "forward" && (
+                  <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+                    <span className="font-medium">緯度経度の格納形式:</span>
+                    <label className="inline-flex items-center gap-1 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="coordinate-format"
+                        value="separate"
+                        checked={coordinateFormat === "separate"}
+                        onChange={() => setCoordinateFormat("separate")}
+                        className="text-blue-600 focus:ring-blue-500"
+                      />
+                      2列（緯度 / 経度）
+                    </label>
+                    <label className="inline-flex items-center gap-1 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="coordinate-format"
+                        value="combined"
+                        checked={coordinateFormat === "combined"}
+                        onChange={() => setCoordinateFormat("combined")}
+                        className="text-blue-600 focus:ring-blue-500"
+                      />
+                      1列（緯度, 経度）
+                    </label>
+                  </div>
+                )}
+              </div>
+              <div className="flex flex-wrap items-center gap-3 mb-3 text-sm text-gray-700">
+                <select
+                  value={resultStatusFilter}
+                  onChange={(e) => {
+                    setResultStatusFilter(e.target.value)
+                    setResultPage(0)
+                  }}
+                  className="p-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">すべてのステータス</option>
+                  {resultStatuses.map(([status, count]) => (
+                    <option key={status} value={status}>
+                      {status}（{count} 件）
+                    </option>
+                  ))}
+                  {postalMismatchCount > 0 && (
+                    <option value={POSTAL_MISMATCH_FILTER}>〒の都道府県が不一致（{postalMismatchCount} 件）</option>
+                  )}
+                  {unresolvedCodeCount > 0 && (
+                    <option value={UNRESOLVED_CODE_FILTER}>市区町村コード未解決（{unresolvedCodeCount} 件）</option>
+                  )}
+                  {QUALITY_FLAGS.filter(({ id }) => (flaggedRows.get(id)?.size ?? 0) > 0).map(({ id, label }) => (
+                    <option key={id} value={`${QUALITY_FILTER_PREFIX}${id}`}>
+                      要確認: {label}（{flaggedRows.get(id)?.size} 件）
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="search"
+                  value={resultQuery}
+                  onChange={(e) => {
+                    setResultQuery(e.target.value)
+                    setResultPage(0)
+                  }}
+                  placeholder="住所・列の値で検索"
+                  className="flex-1 min-w-[12rem] p-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                />
+                <span>
+                  {visibleResultIndexes.length} / {data.length} 件
+                </span>
+                {mode === "forward" && (
+                  <button
+                    onClick={() => regeocodeRows(visibleResultIndexes)}
+                    disabled={regeocodeProgress !== null || visibleResultIndexes.length === 0}
+                    className="px-3 py-2 rounded-lg border border-blue-600 text-blue-700 hover:bg-blue-50 disabled:border-gray-300 disabled:text-gray-400 disabled:hover:bg-transparent"
+                  >
+                    表示中の {visibleResultIndexes.length} 件を再変換
+                  </button>
+                )}
+                {(mode === "forward" || provider.reverseGeocode) && (
+                  <button
+                    onClick={() => regeocodeRows(failedResultIndexes)}
+                    disabled={regeocodeProgress !== null || failedResultIndexes.length === 0}
+                    className="px-3 py-2 rounded-lg border border-red-600 text-red-700 hover:bg-red-50 disabled:border-gray-300 disabled:text-gray-400 disabled:hover:bg-transparent"
+                  >
+                    失敗行のみ再実行（{failedResultIndexes.length} 件）
+                  </button>
+                )}
+              </div>
+              {regeocodeProgress && (
+                <p className="text-sm text-blue-700 mb-2">
+                  再変換中... {regeocodeProgress.processed} / {regeocodeProgress.total} 件
+                </p>
+              )}
               <div className="overflow-x-auto">
                 <table className="min-w-full border-collapse">
                   <thead>
                     <tr className="bg-gray-100">
-                      {(coordinateFormat === "separate"
-                        ? ["住所", "緯度", "経度", "ステータス"]
-                        : ["住所", "緯度・経度", "ステータス"]
-                      ).map((col) => (
-                        <th key={col} className="border border-gray-300 px-3 py-2 text-left text-sm font-medium text-gray-700">
-                          {col}
+                      {resultColumns.map((col) => (
+                        <th
+                          key={col.label}
+                          className="border border-gray-300 px-3 py-2 text-left text-sm font-medium text-gray-700 whitespace-nowrap"
+                        >
+                          {col.sortKey ? (
+                            <button onClick={() => handleResultSort(col.sortKey as string)} className="hover:text-blue-700">
+                              {col.label}
+                              {resultSort?.key === col.sortKey ? (resultSort.descending ? " ▼" : " ▲") : ""}
+                            </button>
+                          ) : (
+                            col.label
+                          )}
                         </th>
                       ))}
                     </tr>
                   </thead>
                   <tbody>
-                    {data.slice(0, 5).map((row, idx) => {
-                      // 選択列の値を結合して表示
-                      const displayAddress = addressColumns
-                        .map((col) => row[col])
-                        .filter((val) => val)
-                        .join("")
+                    {pageResultIndexes.map((index) => {
+                      const row = data[index]
+                      const statusBadge = (
+                        <span
+                          title={row.error_message}
+                          className={`px-2 py-1 rounded text-xs font-medium whitespace-nowrap ${statusBadgeClass(row.geocoding_status)}`}
+                        >
+                          {row.geocoding_status}
+                        </span>
+                      )
+
+                      if (mode === "reverse") {
+                        const displayCoordinates =
+                          coordinateInput === "combined"
+                            ? row[latLonColumn]
+                            : [row[latColumn], row[lngColumn]].filter((val) => val !== undefined).join(", ")
+                        return (
+                          <tr key={index} className={index === highlightedRow ? "bg-yellow-50" : "hover:bg-gray-50"}>
+                            <td className="border border-gray-300 px-3 py-2 text-sm text-gray-500">{index + 1}</td>
+                            <td className="border border-gray-300 px-3 py-2 text-sm whitespace-nowrap">
+                              {displayCoordinates || "-"}
+                            </td>
+                            <td className="border border-gray-300 px-3 py-2 text-sm">{row.reverse_pref || "-"}</td>
+                            <td className="border border-gray-300 px-3 py-2 text-sm">{row.reverse_city || "-"}</td>
+                            <td className="border border-gray-300 px-3 py-2 text-sm">{row.reverse_town || "-"}</td>
+                            <td className="border border-gray-300 px-3 py-2 text-sm">{row.reverse_address || "-"}</td>
+                            <td className="border border-gray-300 px-3 py-2 text-sm">{statusBadge}</td>
+                          </tr>
+                        )
+                      }
+
                       return (
-                        <tr key={idx} className="hover:bg-gray-50">
-                          <td className="border border-gray-300 px-3 py-2 text-sm">{displayAddress}</td>
+                        <tr key={index} className={index === highlightedRow ? "bg-yellow-50" : "hover:bg-gray-50"}>
+                          <td className="border border-gray-300 px-3 py-2 text-sm text-gray-500">{index + 1}</td>
+                          <td className="border border-gray-300 px-3 py-2 text-sm">{buildAddress(row, addressMapping) || "-"}</td>
+                          <td className="border border-gray-300 px-1 py-1 text-sm">
+                            {/* Uncontrolled so that typing does not rebuild the map; committed on blur */}
+                            <input
+                              key={`${index}:${row.normalized_address ?? ""}`}
+                              defaultValue={row.normalized_address ?? ""}
+                              onBlur={(e) => handleAddressEdit(index, e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") e.currentTarget.blur()
+                              }}
+                              className="w-full min-w-[14rem] px-2 py-1 border border-transparent rounded hover:border-gray-300 focus:border-blue-500 focus:ring-blue-500"
+                            />
+                          </td>
                           {coordinateFormat === "separate" ? (
                             <>
                               <td className="border border-gray-300 px-3 py-2 text-sm">
@@ -481,18 +2469,43 @@ export default function Home() {
                                 : "-"}
                             </td>
                           )}
+                          <td className="border border-gray-300 px-3 py-2 text-sm whitespace-nowrap">
+                            {formatMatchLevel(row.geocoding_level)}
+                          </td>
                           <td className="border border-gray-300 px-3 py-2 text-sm">
-                            <span
-                              className={`px-2 py-1 rounded text-xs font-medium ${
-                                row.geocoding_status === "成功"
-                                  ? "bg-green-100 text-green-800"
-                                  : row.geocoding_status === "失敗"
-                                    ? "bg-red-100 text-red-800"
-                                    : "bg-yellow-100 text-yellow-800"
-                              }`}
+                            {[row.normalized_pref, row.normalized_city, row.normalized_town, row.normalized_addr]
+                              .filter((part) => part)
+                              .join("") || "-"}
+                          </td>
+                          <td className="border border-gray-300 px-3 py-2 text-sm">
+                            <div className="flex flex-wrap gap-1">
+                              {statusBadge}
+                              {row.postal_pref_mismatch === "yes" && (
+                                <span
+                                  title={`郵便番号の都道府県: ${row.postal_pref}`}
+                                  className="px-2 py-1 rounded text-xs font-medium whitespace-nowrap bg-orange-100 text-orange-800"
+                                >
+                                  〒不一致
+                                </span>
+                              )}
+                              {row.municipality_code_unresolved === "yes" && (
+                                <span
+                                  title="市区町村名が全国地方公共団体コードの表に見つかりません"
+                                  className="px-2 py-1 rounded text-xs font-medium whitespace-nowrap bg-purple-100 text-purple-800"
+                                >
+                                  コード未解決
+                                </span>
+                              )}
+                            </div>
+                          </td>
+                          <td className="border border-gray-300 px-3 py-2 text-sm">
+                            <button
+                              onClick={() => regeocodeRows([index])}
+                              disabled={regeocodeProgress !== null}
+                              className="text-blue-700 hover:underline whitespace-nowrap disabled:text-gray-400 disabled:no-underline"
                             >
-                              {row.geocoding_status}
-                            </span>
+                              再変換
+                            </button>
                           </td>
                         </tr>
                       )
@@ -500,11 +2513,364 @@ export default function Home() {
                   </tbody>
                 </table>
               </div>
-              {data.length > 5 && (
-                <p className="text-sm text-gray-600 mt-2">
-                  ... ほか {data.length - 5} 件
+              {visibleResultIndexes.length === 0 && (
+                <p className="text-sm text-gray-600 mt-2">条件に一致する行はありません</p>
+              )}
+              {resultPageCount > 1 && (
+                <div className="flex items-center justify-center gap-3 mt-3 text-sm text-gray-700">
+                  <button
+                    onClick={() => setResultPage(currentResultPage - 1)}
+                    disabled={currentResultPage === 0}
+                    className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-100 disabled:text-gray-400 disabled:hover:bg-transparent"
+                  >
+                    前へ
+                  </button>
+                  <span>
+                    {currentResultPage + 1} / {resultPageCount} ページ
+                  </span>
+                  <button
+                    onClick={() => setResultPage(currentResultPage + 1)}
+                    disabled={currentResultPage >= resultPageCount - 1}
+                    className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-100 disabled:text-gray-400 disabled:hover:bg-transparent"
+                  >
+                    次へ
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Result Map */}
+          {data.length > 0 && !loading && (
+            <div className="mb-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-1">地図で確認</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                {mode === "forward"
+                  ? "点をクリックすると行の内容を表示します。マーカーをドラッグして位置を修正すると「手動修正」として出力されます。"
+                  : "点をクリックすると行の内容を表示します。"}
+              </p>
+              <ResultMap
+                key={runCount}
+                rows={data}
+                points={mapPoints}
+                onMove={mode === "forward" ? handleMarkerMove : undefined}
+              />
+            </div>
+          )}
+
+          {/* Export Settings */}
+          {data.length > 0 && !loading && (
+            <div className="mb-4 p-3 border border-gray-300 rounded-lg bg-gray-50 space-y-3 text-sm text-gray-700">
+              <div className="flex flex-wrap items-center gap-4">
+                <span className="font-medium">出力形式:</span>
+                {EXPORT_FORMATS.map((format) => (
+                  <label key={format.id} className="inline-flex items-center gap-1 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="export-format"
+                      value={format.id}
+                      checked={exportFormat === format.id}
+                      onChange={() => setExportFormat(format.id)}
+                      className="text-blue-600 focus:ring-blue-500"
+                    />
+                    {format.label}
+                  </label>
+                ))}
+              </div>
+              {textExport && (
+                <div className="flex flex-wrap items-center gap-4">
+                  <span className="font-medium">文字コード:</span>
+                  {OUTPUT_ENCODINGS.map((option) => (
+                    <label key={option.value} className="inline-flex items-center gap-1 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="output-encoding"
+                        value={option.value}
+                        checked={outputEncoding === option.value}
+                        onChange={() => setOutputEncoding(option.value)}
+                        className="text-blue-600 focus:ring-blue-500"
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+              )}
+              {textExport && unencodableCharacters.length > 0 && (
+                <p className="text-xs text-red-700">
+                  ⚠️ 次の {unencodableCharacters.length} 文字は Shift_JIS で表現できないため「?」に置き換えられます:{" "}
+                  {unencodableCharacters.slice(0, 30).join(" ")}
+                  {unencodableCharacters.length > 30 && " …"}
                 </p>
               )}
+              {(exportFormat === "kml" || exportFormat === "gpx") && (
+                <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                  {(
+                    [
+                      ["名前に使う列", placemarkNameColumn, setPlacemarkNameColumn],
+                      ["説明に使う列", placemarkDescriptionColumn, setPlacemarkDescriptionColumn],
+                    ] as const
+                  ).map(([label, value, setValue]) => (
+                    <label key={label} className="block">
+                      <span className="block text-xs text-gray-600 mb-1">{label}</span>
+                      <select
+                        value={value}
+                        onChange={(e) => setValue(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="">（なし）</option>
+                        {Object.keys(data[0]).map((col) => (
+                          <option key={col} value={col}>
+                            {col}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              )}
+              {(exportFormat === "geojson" || exportFormat === "kml") && (
+                <div className="flex flex-wrap items-center gap-4">
+                  <span className="font-medium">座標のない行:</span>
+                  <label className="inline-flex items-center gap-1 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="missing-geometry"
+                      checked={missingGeometry === "omit"}
+                      onChange={() => setMissingGeometry("omit")}
+                      className="text-blue-600 focus:ring-blue-500"
+                    />
+                    出力しない
+                  </label>
+                  <label className="inline-flex items-center gap-1 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="missing-geometry"
+                      checked={missingGeometry === "null"}
+                      onChange={() => setMissingGeometry("null")}
+                      className="text-blue-600 focus:ring-blue-500"
+                    />
+                    ジオメトリなし（null）で出力
+                  </label>
+                </div>
+              )}
+              {exportFormat === "gpx" && (
+                <p className="text-xs text-gray-600">GPX のウェイポイントには座標が必須のため、座標のない行は出力されません</p>
+              )}
+              <div>
+                <span className="font-medium">追加する列（緯度経度からブラウザ内で計算）:</span>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1">
+                  {DERIVED_COLUMNS.map(({ id, label, columns: derived }) => (
+                    <label key={id} title={derived.join(", ")} className="inline-flex items-center gap-1 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={derivedColumns.columns.includes(id)}
+                        onChange={(e) =>
+                          setDerivedColumns((current) => ({
+                            ...current,
+                            columns: e.target.checked
+                              ? [...current.columns, id]
+                              : current.columns.filter((other) => other !== id),
+                          }))
+                        }
+                        className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                {(derivedColumns.columns.includes("plane") || derivedColumns.columns.includes("geohash")) && (
+                  <div className="flex flex-wrap items-center gap-4 mt-2">
+                    {derivedColumns.columns.includes("plane") && (
+                      <label className="inline-flex items-center gap-2">
+                        平面直角座標の系:
+                        <select
+                          value={derivedColumns.planeZone}
+                          onChange={(e) => setDerivedColumns({ ...derivedColumns, planeZone: Number(e.target.value) })}
+                          className="px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          <option value={0}>都道府県から自動</option>
+                          {PLANE_ZONES.map((zone) => (
+                            <option key={zone} value={zone}>
+                              第{zone}系
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    )}
+                    {derivedColumns.columns.includes("geohash") && (
+                      <label className="inline-flex items-center gap-2">
+                        Geohash の桁数:
+                        <input
+                          type="number"
+                          min={1}
+                          max={12}
+                          value={derivedColumns.geohashPrecision}
+                          onChange={(e) =>
+                            setDerivedColumns({
+                              ...derivedColumns,
+                              geohashPrecision: Math.min(12, Math.max(1, Number(e.target.value) || 1)),
+                            })
+                          }
+                          className="w-16 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </label>
+                    )}
+                  </div>
+                )}
+                {derivedColumns.columns.includes("plane") && derivedColumns.planeZone === 0 && (
+                  <p className="text-xs text-gray-600 mt-1">
+                    北海道・東京都の島しょ部・鹿児島県・沖縄県のように複数の系がある地域では、最も近い原点の系を選びます
+                  </p>
+                )}
+              </div>
+              <div>
+                <span className="font-medium">出力する列名（空欄は既定の名前）:</span>
+                <div className="grid grid-cols-1 gap-2 mt-1 md:grid-cols-2">
+                  {RENAMEABLE_COLUMNS.map(({ column, label }) => (
+                    <label key={column} className="flex items-center gap-2">
+                      <span className="w-32 text-xs text-gray-600">{label}</span>
+                      <input
+                        type="text"
+                        value={outputSchema.columnNames[column] ?? ""}
+                        placeholder={column}
+                        onChange={(e) =>
+                          setOutputSchema({
+                            ...outputSchema,
+                            columnNames: { ...outputSchema.columnNames, [column]: e.target.value },
+                          })
+                        }
+                        className="flex-1 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </label>
+                  ))}
+                </div>
+                {conflictingColumnNames(outputSchema, Object.keys(data[0])).length > 0 && (
+                  <p className="text-xs text-red-700 mt-1">
+                    ⚠️ 列名が他の列と重複しています:{" "}
+                    {conflictingColumnNames(outputSchema, Object.keys(data[0])).join(", ")}
+                  </p>
+                )}
+                <div className="flex flex-wrap items-center gap-4 mt-2">
+                  <label className="inline-flex items-center gap-2">
+                    緯度・経度の桁数:
+                    <select
+                      value={outputSchema.precision ?? ""}
+                      onChange={(e) =>
+                        setOutputSchema({
+                          ...outputSchema,
+                          precision: e.target.value === "" ? null : Number(e.target.value),
+                        })
+                      }
+                      className="px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">変換結果のまま</option>
+                      {Array.from({ length: MAX_PRECISION + 1 }, (_, digits) => (
+                        <option key={digits} value={digits}>
+                          小数点以下 {digits} 桁
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="inline-flex items-center gap-2">
+                    追加する列の位置:
+                    <select
+                      value={outputSchema.placement}
+                      onChange={(e) =>
+                        setOutputSchema({
+                          ...outputSchema,
+                          placement: COLUMN_PLACEMENTS.find(({ id }) => id === e.target.value)?.id ?? "append",
+                        })
+                      }
+                      className="px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {COLUMN_PLACEMENTS.map(({ id, label }) => (
+                        <option key={id} value={id}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="inline-flex items-center gap-2">
+                    ステータスの表記:
+                    <select
+                      value={outputSchema.statusLabels}
+                      onChange={(e) =>
+                        setOutputSchema({ ...outputSchema, statusLabels: e.target.value === "en" ? "en" : "ja" })
+                      }
+                      className="px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="ja">日本語（成功・失敗など）</option>
+                      <option value="en">英語のコード（{Object.values(STATUS_CODES).slice(0, 4).join("・")} など）</option>
+                    </select>
+                  </label>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 mt-2">
+                  <span>プリセット:</span>
+                  {outputPresets.length > 0 && (
+                    <select
+                      value=""
+                      onChange={(e) => {
+                        const preset = outputPresets.find(({ name }) => name === e.target.value)
+                        if (!preset) return
+                        setOutputSchema(preset.schema)
+                        setPresetName(preset.name)
+                      }}
+                      className="px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">保存したプリセットを適用…</option>
+                      {outputPresets.map(({ name }) => (
+                        <option key={name} value={name}>
+                          {name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <input
+                    type="text"
+                    value={presetName}
+                    placeholder="プリセット名"
+                    onChange={(e) => setPresetName(e.target.value)}
+                    className="w-40 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <button
+                    onClick={handleSavePreset}
+                    disabled={!presetName.trim()}
+                    className="px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+                  >
+                    保存
+                  </button>
+                  {outputPresets.some(({ name }) => name === presetName.trim()) && (
+                    <button
+                      onClick={() => handleDeletePreset(presetName.trim())}
+                      className="px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                    >
+                      削除
+                    </button>
+                  )}
+                  <button
+                    onClick={handleExportPreset}
+                    className="px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                  >
+                    JSON で書き出し
+                  </button>
+                  <label className="px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 cursor-pointer">
+                    JSON を読み込む
+                    <input
+                      type="file"
+                      accept=".json,application/json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const presetFile = e.target.files?.[0]
+                        if (presetFile) handleImportPreset(presetFile)
+                        e.target.value = ""
+                      }}
+                    />
+                  </label>
+                </div>
+                <p className="text-xs text-gray-600 mt-1">
+                  書き出した JSON はコマンドラインツールの --schema でも使えます。入力ファイルの列はそのまま残ります
+                </p>
+              </div>
             </div>
           )}
 
@@ -514,7 +2880,24 @@ export default function Home() {
               onClick={handleDownload}
               className="w-full py-3 px-4 rounded-lg font-medium text-white bg-green-600 hover:bg-green-700 transition"
             >
-              ⬇️ CSVをダウンロード
+              ⬇️ {selectedExportFormat.label}をダウンロード
+              {batch.length > 1 && `（${file?.name}）`}
+            </button>
+          )}
+          {data.length > 0 && !loading && (
+            <button
+              onClick={handleCopyResults}
+              className="w-full mt-3 py-2 px-4 rounded-lg text-sm font-medium text-green-700 border border-green-600 bg-white hover:bg-green-50 transition"
+            >
+              {copiedTarget === "results" ? "✓ コピーしました" : "📋 結果を TSV でクリップボードにコピー（表計算ソフトに貼り付け可）"}
+            </button>
+          )}
+          {processedEntries.length > 1 && !loading && (
+            <button
+              onClick={handleDownloadZip}
+              className="w-full mt-3 py-3 px-4 rounded-lg font-medium text-green-700 border border-green-600 bg-white hover:bg-green-50 transition"
+            >
+              🗜️ すべてのファイルの結果と集計を ZIP でダウンロード（{processedEntries.length} ファイル）
             </button>
           )}
         </div>
@@ -524,12 +2907,31 @@ export default function Home() {
           <h3 className="font-medium text-blue-900 mb-2">ℹ️ 使用方法と特徴</h3>
           <ul className="text-sm text-blue-800 space-y-1">
             <li>• Geoloniaのコミュニティジオコーダー（国土交通省の位置参照情報を使用）を採用</li>
+            <li>• 国土地理院の住所検索や自前の Nominatim サーバーにも切り替え可能</li>
             <li>• 日本の住所に特化した高精度な変換が可能</li>
             <li>• すべてのデータはブラウザ上で処理 - サーバーにアップロードされません</li>
             <li>• 出力CSVに自動的に緯度・経度列が追加されます</li>
+            <li>• 一致レベルと正規化された都道府県・市区町村・町丁目も出力されます</li>
+            <li>• 出力する列名・緯度経度の桁数・列の位置・ステータスの表記（日本語 / 英語のコード）を変更し、プリセットとして保存できます</li>
+            <li>• 都道府県・市区町村名から全国地方公共団体コード（政令指定都市は区のコード）を付け、コードが見つからない行は「コード未解決」で絞り込めます</li>
+            <li>• 郵便番号・全角数字・漢数字・建物名などを正規化してから変換し、正規化後の住所も出力します</li>
             <li>• 地図作成やロケーションベースの分析に最適です</li>
-            <li>• 入力ファイルの文字コード（UTF-8 / Shift_JIS）を選択可能</li>
-            <li>• 出力ファイルはUTF-8でダウンロード</li>
+            <li>• 緯度経度の列から都道府県・市区町村・町丁目・住所を求める逆ジオコーディングにも対応</li>
+            <li>• 入力ファイルの文字コード（UTF-8 / Shift_JIS / EUC-JP / ISO-2022-JP / UTF-16）を自動判定（手動変更も可能）</li>
+            <li>• Excel (.xlsx) はシートと見出し行を選んで読み込み、失敗行を色付けして出力できます</li>
+            <li>• CSV / TSV は UTF-8・UTF-8（BOM付き）・Shift_JIS で出力可能（GeoJSON / KML / GPX は UTF-8）</li>
+            <li>• 変換結果はブラウザ内（IndexedDB）にキャッシュされ、同じ住所の再変換を省略します</li>
+            <li>• 変換結果を地図上で確認し、マーカーのドラッグで位置を手動修正できます</li>
+            <li>• 全行をステータス・キーワードで絞り込み、住所を修正して1行ずつ、または表示中の行をまとめて再変換できます</li>
+            <li>• 大きなファイルもバックグラウンド（Web Worker）で少しずつ読み込むため、処理中も画面が固まりません</li>
+            <li>• 複数のファイルをまとめてドロップすると順番に処理し、全ファイルの結果と集計を ZIP でダウンロードできます</li>
+            <li>• 郵便番号・都道府県・市区町村・番地・建物名などの列に役割を割り当て、結合順と区切り文字を指定できます（郵便番号は都道府県の照合に使用）</li>
+            <li>• ファイルを開くと列名と値（都道府県名・丁目や番地・郵便番号の形式など）から住所の列を採点し、候補を自動で選びます</li>
+            <li>• 変換後の品質レポートで、ステータス・一致レベル・地域別の件数と、日本の範囲外や市区町村内の外れ値、異なる住所での座標の重複を確認できます（CSV / JSON でダウンロード可能）</li>
+            <li>• 出力に地域メッシュコード（第1次〜8分の1）、平面直角座標（JGD2011）、Geohash、Web メルカトル座標の列を追加できます（ブラウザ内で計算）</li>
+            <li>• 「貼り付け」ではスプレッドシートからコピーした表や 1 行 1 件の住所をそのまま変換でき、「1件だけ検索」では住所 1 件の一致レベルや座標をすぐに確認できます（結果は TSV でコピー可能）</li>
+            <li>• 「プロジェクトを保存」で元のファイル・設定・変換結果（手動修正を含む）を 1 つのファイルにまとめ、別の PC やブラウザで「プロジェクトを開く」から作業を再開できます</li>
+            <li>• 通信エラー・タイムアウトは自動で再試行し、それでも失敗した行は「失敗」（該当なし）と区別して表示します。「失敗行のみ再実行」でまとめてやり直せます</li>
           </ul>
         </div>
       </div>
@@ -0,0 +1,402 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { parseArgs } from "node:util"
+import {
+  ADDRESS_ROLES,
+  addressRoleLabel,
+  guessAddressMapping,
+  hasGeocodedColumn,
+  mappedColumns,
+  mappingFromColumns,
+  type AddressMapping,
+  type AddressRole,
+} from "@/lib/address-mapping"
+import { NORMALIZATION_RULES, type NormalizationRuleId } from "@/lib/address-normalizer"
+import { OUTPUT_ENCODINGS, type OutputEncoding } from "@/lib/encoding"
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/export-formats"
+import { createProvider, type GeocodingMode, type ProviderId } from "@/lib/geocoders"
+import { DERIVED_COLUMNS, PLANE_ZONES, type DerivedColumnId } from "@/lib/grid-coordinates"
+import type { JobProgress } from "@/lib/job-runner"
+import { DEFAULT_RETRY_OPTIONS } from "@/lib/lookup-retry"
+import {
+  COLUMN_PLACEMENTS,
+  DEFAULT_OUTPUT_SCHEMA,
+  MAX_PRECISION,
+  RENAMEABLE_COLUMNS,
+  STATUS_CODES,
+  parseOutputSchema,
+  type ColumnPlacement,
+  type OutputSchema,
+  type StatusLabelStyle,
+} from "@/lib/output-schema"
+import {
+  createAddressLookup,
+  createCoordinateLookup,
+  createQueueRunner,
+  exportRows,
+  geocodeRows,
+  readSource,
+  reverseGeocodeRows,
+  type CoordinateFormat,
+} from "@/lib/pipeline"
+import { stripSourceExtension, type SourceTable } from "@/lib/source-file"
+
+const USAGE = `使い方: address-to-latlon <入力ファイル> [オプション]
+
+CSV / TSV / .xlsx の住所を緯度経度に変換します（--mode reverse で緯度経度から住所）。
+
+入力:
+  -c, --columns <列,...>        住所の列。カンマ区切りで複数指定すると指定順に結合します
+                                列の役割は列名から推定します。役割=列 で明示も可能です
+                                省略すると列名と値から住所の列を自動判定します
+                                （役割: ${ADDRESS_ROLES.map((r) => `${r.role}=${r.label}`).join(", ")}）
+                                郵便番号は結果の都道府県との照合に使い、郵便番号と建物名は住所に含めません
+      --separator <役割=文字>   その役割の列の前に入れる区切り文字（複数回指定可）
+  -m, --mode <forward|reverse>  変換の向き（既定: forward）
+      --lat <列> --lng <列>     逆ジオコーディングの緯度・経度列
+      --lat-lon <列>            逆ジオコーディングで "緯度,経度" が 1 列に入っている場合の列
+  -e, --encoding <文字コード>   auto / utf-8 / sjis / euc-jp / utf-16le など（既定: auto）
+  -d, --delimiter <区切り>      区切り文字。tab でタブ（既定: 自動判定）
+      --sheet <シート名>        .xlsx のシート（既定: 先頭のシート）
+      --header-row <行>         見出し行の行番号（既定: 1）
+
+変換:
+  -p, --provider <id>           gsi / nominatim / mock（既定: gsi）
+      --nominatim-url <URL>     Nominatim 互換 API の URL
+      --min-level <0-3>         これ未満の一致レベルを「低精度」にする（既定: 3）
+      --normalize <規則,...>    住所の正規化規則。none で無効（既定: すべて）
+                                ${NORMALIZATION_RULES.map((rule) => rule.id).join(", ")}
+      --concurrency <n>         同時リクエスト数（既定: 4）
+      --rps <n>                 1 秒あたりの最大リクエスト数。0 で無制限（既定: 10）
+      --retries <n>             通信エラー・タイムアウト時の再試行回数（既定: ${DEFAULT_RETRY_OPTIONS.retries}）
+      --timeout <秒>            1 件あたりのタイムアウト。0 で無制限（既定: ${DEFAULT_RETRY_OPTIONS.timeoutMs / 1000}）
+      --fallback                見つからない住所を建物名、番地の順に除いて再検索する（fallback_level 列に段階を出力）
+
+出力:
+  -f, --format <形式>           ${EXPORT_FORMATS.map((format) => format.id).join(" / ")}（既定: csv）
+  -o, --output <パス>           出力先。拡張子を省略すると形式に合わせて付けます
+                                （既定: <入力ファイル名>_geocoded.<拡張子>）
+      --output-encoding <名前>  ${OUTPUT_ENCODINGS.map((encoding) => encoding.value).join(" / ")}（CSV / TSV のみ、既定: utf-8）
+      --coordinate-format <f>   separate（緯度・経度の 2 列）/ combined（lat_lon の 1 列）
+      --include-missing         GeoJSON / KML に座標のない行もジオメトリなしで出力する
+      --name-column <列>        KML / GPX の名前に使う列
+      --description-column <列> KML / GPX の説明に使う列
+      --derive <列,...>         緯度経度から計算して追加する列
+                                （${DERIVED_COLUMNS.map((column) => `${column.id}=${column.label}`).join(", ")}）
+      --plane-zone <auto|1-19>  平面直角座標の系（既定: auto で都道府県から選択）
+      --geohash-precision <n>   Geohash の桁数（既定: 9）
+      --schema <JSON ファイル>  画面で書き出した出力形式のプリセット（列名・桁数・列の位置・ステータス表記）
+      --rename <列=新しい名前>  追加する列の名前を変える（複数回指定可、${RENAMEABLE_COLUMNS.map((c) => c.column).join(" / ")}）
+      --precision <n>           緯度・経度の小数点以下の桁数（既定: 変換結果のまま）
+      --placement <位置>        追加する列の位置 ${COLUMN_PLACEMENTS.map((p) => `${p.id}=${p.label}`).join(", ")}
+      --status-labels <ja|en>   ステータスを日本語か英語のコード（${Object.values(STATUS_CODES).join(" / ")}）で出力
+  -q, --quiet                   進捗を表示しない
+  -h, --help                    このヘルプを表示する
+`
+
+const CLI_PROVIDERS: ProviderId[] = ["gsi", "nominatim", "mock"]
+
+const oneOf = <T extends string>(name: string, value: string, allowed: readonly T[]): T => {
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new Error(`--${name} には ${allowed.join(" / ")} のいずれかを指定してください: ${value}`)
+  }
+  return value as T
+}
+
+const toNumber = (name: string, value: string, min: number) => {
+  const number = Number(value)
+  if (!Number.isFinite(number) || number < min) throw new Error(`--${name} の値が不正です: ${value}`)
+  return number
+}
+
+const splitList = (value: string | undefined) =>
+  (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item)
+
+const outputPath = (input: string, output: string | undefined, extension: string) => {
+  if (!output) {
+    const parsed = path.parse(input)
+    return path.join(parsed.dir, `${stripSourceExtension(parsed.base)}_geocoded.${extension}`)
+  }
+  return path.extname(output) ? output : `${output}.${extension}`
+}
+
+const ROLE_IDS = ADDRESS_ROLES.map((r) => r.role)
+// Rows sampled to detect the address columns when -c is not given, as in the web page
+const DETECTION_ROW_COUNT = 50
+
+// "-c pref=都道府県,住所" and "--separator block=-"; without -c the columns are detected from the table
+const parseAddressMapping = (
+  columnsValue: string | undefined,
+  separators: string[],
+  table: SourceTable
+): AddressMapping => {
+  const roles: Partial<Record<string, AddressRole>> = {}
+  const columns = splitList(columnsValue).map((item) => {
+    const [role, column] = item.split(/=(.*)/s)
+    if (column === undefined || !ROLE_IDS.includes(role as AddressRole)) return item
+    roles[column] = role as AddressRole
+    return column
+  })
+  const mapping =
+    columnsValue === undefined
+      ? guessAddressMapping(table.columns, table.rows.slice(0, DETECTION_ROW_COUNT))
+      : mappingFromColumns(columns, roles)
+  return separators.reduce((current, item) => {
+    const [role, separator = ""] = item.split(/=(.*)/s)
+    const id = oneOf<AddressRole>("separator", role, ROLE_IDS)
+    return current.map((part) => (part.role === id ? { ...part, separator } : part))
+  }, mapping)
+}
+
+const reportProgress = ({ processed, total }: JobProgress) => {
+  process.stderr.write(`\r処理中... ${processed} / ${total} 件`)
+}
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      columns: { type: "string", short: "c" },
+      separator: { type: "string", multiple: true, default: [] },
+      mode: { type: "string", short: "m", default: "forward" },
+      lat: { type: "string" },
+      lng: { type: "string" },
+      "lat-lon": { type: "string" },
+      encoding: { type: "string", short: "e", default: "auto" },
+      delimiter: { type: "string", short: "d", default: "" },
+      sheet: { type: "string" },
+      "header-row": { type: "string", default: "1" },
+      provider: { type: "string", short: "p", default: "gsi" },
+      "nominatim-url": { type: "string" },
+      "min-level": { type: "string", default: "3" },
+      normalize: { type: "string" },
+      concurrency: { type: "string", default: "4" },
+      rps: { type: "string", default: "10" },
+      retries: { type: "string", default: String(DEFAULT_RETRY_OPTIONS.retries) },
+      timeout: { type: "string", default: String(DEFAULT_RETRY_OPTIONS.timeoutMs / 1000) },
+      fallback: { type: "boolean", default: false },
+      format: { type: "string", short: "f", default: "csv" },
+      output: { type: "string", short: "o" },
+      "output-encoding": { type: "string", default: "utf-8" },
+      "coordinate-format": { type: "string", default: "separate" },
+      "include-missing": { type: "boolean", default: false },
+      "name-column": { type: "string" },
+      "description-column": { type: "string" },
+      derive: { type: "string" },
+      "plane-zone": { type: "string", default: "auto" },
+      "geohash-precision": { type: "string", default: "9" },
+      schema: { type: "string" },
+      rename: { type: "string", multiple: true, default: [] },
+      precision: { type: "string" },
+      placement: { type: "string" },
+      "status-labels": { type: "string" },
+      quiet: { type: "boolean", short: "q", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  })
+
+  if (values.help || positionals.length === 0) {
+    process.stdout.write(USAGE)
+    return
+  }
+  if (positionals.length > 1) throw new Error("入力ファイルは 1 つだけ指定してください")
+
+  const input = positionals[0]
+  const mode = oneOf<GeocodingMode>("mode", values.mode, ["forward", "reverse"])
+  const providerId = oneOf("provider", values.provider, CLI_PROVIDERS)
+  const format = oneOf<ExportFormat>(
+    "format",
+    values.format,
+    EXPORT_FORMATS.map((f) => f.id)
+  )
+  const outputEncoding = oneOf<OutputEncoding>(
+    "output-encoding",
+    values["output-encoding"],
+    OUTPUT_ENCODINGS.map((e) => e.value)
+  )
+  const coordinateFormat = oneOf<CoordinateFormat>("coordinate-format", values["coordinate-format"], [
+    "separate",
+    "combined",
+  ])
+  const derivedColumns = {
+    columns: splitList(values.derive).map((id) =>
+      oneOf<DerivedColumnId>(
+        "derive",
+        id,
+        DERIVED_COLUMNS.map((column) => column.id)
+      )
+    ),
+    planeZone:
+      values["plane-zone"] === "auto"
+        ? 0
+        : Number(oneOf("plane-zone", values["plane-zone"], ["auto", ...PLANE_ZONES.map(String)])),
+    // Twelve characters already resolve a few centimetres
+    geohashPrecision: Math.min(Math.floor(toNumber("geohash-precision", values["geohash-precision"], 1)), 12),
+  }
+  // Options given on the command line override the preset file
+  const preset = values.schema ? parseOutputSchema(await readFile(values.schema, "utf-8")) : DEFAULT_OUTPUT_SCHEMA
+  const outputSchema: OutputSchema = {
+    columnNames: values.rename.reduce(
+      (names, item) => {
+        const [column, name = ""] = item.split(/=(.*)/s)
+        oneOf(
+          "rename",
+          column,
+          RENAMEABLE_COLUMNS.map((c) => c.column)
+        )
+        return { ...names, [column]: name }
+      },
+      { ...preset.columnNames }
+    ),
+    precision:
+      values.precision === undefined
+        ? preset.precision
+        : Math.min(Math.floor(toNumber("precision", values.precision, 0)), MAX_PRECISION),
+    placement:
+      values.placement === undefined
+        ? preset.placement
+        : oneOf<ColumnPlacement>(
+            "placement",
+            values.placement,
+            COLUMN_PLACEMENTS.map((p) => p.id)
+          ),
+    statusLabels:
+      values["status-labels"] === undefined
+        ? preset.statusLabels
+        : oneOf<StatusLabelStyle>("status-labels", values["status-labels"], ["ja", "en"]),
+  }
+  const normalizationRules =
+    values.normalize === "none"
+      ? []
+      : values.normalize === undefined
+        ? NORMALIZATION_RULES.map((rule) => rule.id)
+        : splitList(values.normalize).map((id) =>
+            oneOf<NormalizationRuleId>(
+              "normalize",
+              id,
+              NORMALIZATION_RULES.map((rule) => rule.id)
+            )
+          )
+
+  const coordinateColumns = {
+    coordinateInput: values["lat-lon"] ? ("combined" as const) : ("separate" as const),
+    latColumn: values.lat ?? "",
+    lngColumn: values.lng ?? "",
+    latLonColumn: values["lat-lon"] ?? "",
+  }
+  if (
+    mode === "reverse" &&
+    !coordinateColumns.latLonColumn &&
+    !(coordinateColumns.latColumn && coordinateColumns.lngColumn)
+  ) {
+    throw new Error("--lat と --lng、または --lat-lon で緯度経度の列を指定してください")
+  }
+
+  const file = new File([await readFile(input)], path.basename(input))
+  const table = await readSource(file, {
+    encoding: values.encoding,
+    delimiter: values.delimiter === "tab" ? "\t" : values.delimiter,
+    sheetName: values.sheet,
+    headerRow: toNumber("header-row", values["header-row"], 1),
+  })
+  const addressMapping = parseAddressMapping(values.columns, values.separator, table)
+  const addressColumns = mappedColumns(addressMapping)
+  if (mode === "forward" && !hasGeocodedColumn(addressMapping)) {
+    throw new Error("--columns で住所列を指定してください（郵便番号・建物名の列だけでは変換できません）")
+  }
+  if (mode === "forward" && values.columns === undefined && !values.quiet) {
+    const detected = addressMapping.filter((part) => part.column)
+    process.stderr.write(
+      `住所列を自動判定しました: ${detected.map((part) => `${addressRoleLabel(part.role)}=${part.column}`).join(", ")}\n`
+    )
+  }
+  const required =
+    mode === "forward"
+      ? addressColumns
+      : [coordinateColumns.latColumn, coordinateColumns.lngColumn, coordinateColumns.latLonColumn]
+  const missing = required.filter((col) => col && !table.columns.includes(col))
+  if (missing.length > 0) {
+    throw new Error(`列が見つかりません: ${missing.join(", ")}（入力の列: ${table.columns.join(", ")}）`)
+  }
+
+  const provider = createProvider(providerId, { nominatimUrl: values["nominatim-url"] })
+  if (mode === "reverse" && !provider.reverseGeocode) {
+    throw new Error(`${providerId} は緯度経度からの住所検索に対応していません`)
+  }
+  await provider.load()
+
+  const runQueue = createQueueRunner({
+    concurrency: toNumber("concurrency", values.concurrency, 1),
+    requestsPerSecond: toNumber("rps", values.rps, 0),
+    onProgress: values.quiet ? undefined : reportProgress,
+  })
+  const retry = {
+    ...DEFAULT_RETRY_OPTIONS,
+    retries: Math.floor(toNumber("retries", values.retries, 0)),
+    timeoutMs: toNumber("timeout", values.timeout, 0) * 1000,
+  }
+  const { geocodedRows } =
+    mode === "forward"
+      ? await geocodeRows(
+          table.rows,
+          {
+            addressMapping,
+            normalizationRules,
+            minMatchLevel: toNumber("min-level", values["min-level"], 0),
+            fallback: values.fallback,
+          },
+          createAddressLookup(provider, undefined, retry),
+          runQueue
+        )
+      : await reverseGeocodeRows(table.rows, coordinateColumns, createCoordinateLookup(provider, undefined, retry), runQueue)
+  if (!values.quiet) process.stderr.write("\n")
+
+  const extension = EXPORT_FORMATS.find((f) => f.id === format)?.extension ?? format
+  const destination = outputPath(input, values.output, extension)
+  const content = await exportRows(geocodedRows, {
+    format,
+    mode,
+    coordinateFormat,
+    coordinateColumns,
+    outputEncoding,
+    includeMissing: values["include-missing"],
+    nameColumn: values["name-column"] ?? (mode === "forward" ? addressColumns[0] : "reverse_address"),
+    descriptionColumn: values["description-column"],
+    documentName: stripSourceExtension(path.basename(input)),
+    derivedColumns,
+    outputSchema,
+    outputLayout: {
+      sourceColumns: table.columns,
+      addressColumns:
+        mode === "forward"
+          ? addressColumns
+          : [coordinateColumns.latColumn, coordinateColumns.lngColumn, coordinateColumns.latLonColumn],
+    },
+  })
+  await writeFile(destination, Buffer.from(await new Blob([content]).arrayBuffer()))
+
+  const counts = new Map<string, number>()
+  geocodedRows.forEach((row) => {
+    const status = row.geocoding_status ?? ""
+    counts.set(status, (counts.get(status) ?? 0) + 1)
+  })
+  const summary = Array.from(counts, ([status, count]) => `${status} ${count}`).join(" / ")
+  process.stderr.write(`${destination} に ${geocodedRows.length} 行を出力しました（${summary}）\n`)
+  const mismatches = geocodedRows.filter((row) => row.postal_pref_mismatch === "yes").length
+  if (mismatches > 0) {
+    process.stderr.write(`郵便番号と変換結果の都道府県が一致しない行が ${mismatches} 行あります（postal_pref_mismatch 列）\n`)
+  }
+  const unresolved = geocodedRows.filter((row) => row.municipality_code_unresolved === "yes").length
+  if (unresolved > 0) {
+    process.stderr.write(`市区町村コードを特定できない行が ${unresolved} 行あります（municipality_code_unresolved 列）\n`)
+  }
+}
+
+main().catch((err) => {
+  process.stderr.write(`エラー: ${err instanceof Error ? err.message : String(err)}\n`)
+  process.exitCode = 1
+})
@@ -0,0 +1,194 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import type { LayerGroup, Map as LeafletMap, Marker } from "leaflet"
+import "leaflet/dist/leaflet.css"
+import {
+  MAP_INITIAL_CENTER,
+  MAP_INITIAL_ZOOM,
+  MAP_MAX_ZOOM,
+  MAP_TILE_ATTRIBUTION,
+  MAP_TILE_URL,
+} from "@/lib/map-config"
+
+type Leaflet = typeof import("leaflet")
+
+export interface MapPoint {
+  lat: number
+  lng: number
+}
+
+interface ResultMapProps {
+  rows: Record<string, string | number | undefined>[]
+  // Parallel to rows; null where a row has no usable coordinates
+  points: (MapPoint | null)[]
+  // When given, the selected marker can be dragged to correct its position
+  onMove?: (index: number, lat: number, lng: number) => void
+}
+
+const MARKER_COLORS: Record<string, string> = {
+  成功: "#16a34a",
+  低精度: "#ea580c",
+  手動修正: "#2563eb",
+  失敗: "#dc2626",
+}
+
+const DEFAULT_MARKER_COLOR = "#ca8a04"
+
+const markerColor = (status: string | number | undefined) =>
+  MARKER_COLORS[String(status ?? "")] ?? DEFAULT_MARKER_COLOR
+
+// Built with DOM APIs so that cell values are never interpreted as HTML
+const popupContent = (row: ResultMapProps["rows"][number], index: number, editable: boolean) => {
+  const container = document.createElement("div")
+  const title = container.appendChild(document.createElement("p"))
+  title.className = "font-medium mb-1"
+  title.textContent = `${index + 1} 行目`
+
+  const table = container.appendChild(document.createElement("table"))
+  table.className = "text-xs"
+  for (const [key, value] of Object.entries(row)) {
+    if (value === undefined || value === "") continue
+    const tr = table.insertRow()
+    const th = tr.appendChild(document.createElement("th"))
+    th.className = "pr-2 text-left align-top text-gray-500 font-normal whitespace-nowrap"
+    th.textContent = key
+    tr.insertCell().textContent = String(value)
+  }
+
+  if (editable) {
+    const hint = container.appendChild(document.createElement("p"))
+    hint.className = "mt-2 text-xs text-blue-700"
+    hint.textContent = "マーカーをドラッグすると位置を修正できます"
+  }
+  return container
+}
+
+/**
+ * Plots every row with coordinates as a canvas circle so that large files stay
+ * responsive. Clicking a circle selects the row and swaps in a regular marker,
+ * which is draggable when `onMove` is given.
+ */
+export default function ResultMap({ rows, points, onMove }: ResultMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const leafletRef = useRef<{ L: Leaflet; map: LeafletMap; layer: LayerGroup } | null>(null)
+  const selectionRef = useRef<Marker | null>(null)
+  const fittedRef = useRef(false)
+  const onMoveRef = useRef(onMove)
+  const [ready, setReady] = useState(false)
+  const [selected, setSelected] = useState<number | null>(null)
+
+  onMoveRef.current = onMove
+
+  useEffect(() => {
+    let disposed = false
+    import("leaflet").then(({ default: L }) => {
+      if (disposed || !containerRef.current) return
+      const map = L.map(containerRef.current, { preferCanvas: true, maxZoom: MAP_MAX_ZOOM }).setView(
+        MAP_INITIAL_CENTER,
+        MAP_INITIAL_ZOOM
+      )
+      if (MAP_TILE_URL) {
+        L.tileLayer(MAP_TILE_URL, { attribution: MAP_TILE_ATTRIBUTION, maxZoom: MAP_MAX_ZOOM }).addTo(map)
+      }
+      map.on("click", () => setSelected(null))
+      leafletRef.current = { L, map, layer: L.layerGroup().addTo(map) }
+      setReady(true)
+    })
+    return () => {
+      disposed = true
+      leafletRef.current?.map.remove()
+      leafletRef.current = null
+      selectionRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    const leaflet = leafletRef.current
+    if (!ready || !leaflet) return
+    const { L, map, layer } = leaflet
+
+    layer.clearLayers()
+    const bounds = L.latLngBounds([])
+    points.forEach((point, index) => {
+      if (!point) return
+      L.circleMarker([point.lat, point.lng], {
+        radius: 6,
+        color: "#ffffff",
+        weight: 1,
+        fillColor: markerColor(rows[index]?.geocoding_status),
+        fillOpacity: 0.9,
+      })
+        .on("click", (event) => {
+          L.DomEvent.stopPropagation(event)
+          setSelected(index)
+        })
+        .addTo(layer)
+      bounds.extend([point.lat, point.lng])
+    })
+
+    // Only the first draw moves the view; later redraws come from the user's own edits
+    if (!fittedRef.current && bounds.isValid()) {
+      map.fitBounds(bounds, { padding: [24, 24], maxZoom: 15 })
+      fittedRef.current = true
+    }
+  }, [ready, rows, points])
+
+  useEffect(() => {
+    const leaflet = leafletRef.current
+    selectionRef.current?.remove()
+    selectionRef.current = null
+    const point = selected === null ? null : points[selected]
+    if (!ready || !leaflet || selected === null || !point) return
+    const { L, map } = leaflet
+
+    const editable = Boolean(onMoveRef.current)
+    const color = markerColor(rows[selected]?.geocoding_status)
+    const marker = L.marker([point.lat, point.lng], {
+      draggable: editable,
+      autoPan: true,
+      icon: L.divIcon({
+        className: "",
+        html: `<span class="block w-5 h-5 rounded-full border-2 border-white shadow-lg" style="background:${color}"></span>`,
+        iconSize: [20, 20],
+        iconAnchor: [10, 10],
+        popupAnchor: [0, -10],
+      }),
+    })
+      .bindPopup(popupContent(rows[selected], selected, editable), { maxWidth: 360, maxHeight: 280 })
+      .on("dragend", () => {
+        const position = marker.getLatLng()
+        onMoveRef.current?.(selected, position.lat, position.lng)
+      })
+      .addTo(map)
+      .openPopup()
+    selectionRef.current = marker
+  }, [ready, rows, points, selected])
+
+  const statusCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    points.forEach((point, index) => {
+      if (!point) return
+      const status = String(rows[index]?.geocoding_status ?? "")
+      counts.set(status, (counts.get(status) ?? 0) + 1)
+    })
+    return Array.from(counts)
+  }, [rows, points])
+
+  const missingCount = points.filter((point) => !point).length
+
+  return (
+    <div>
+      <div ref={containerRef} className="h-96 w-full rounded-lg border border-gray-300 bg-gray-100" />
+      <div className="mt-2 flex flex-wrap items-center gap-4 text-xs text-gray-700">
+        {statusCounts.map(([status, count]) => (
+          <span key={status} className="inline-flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-full" style={{ background: markerColor(status) }} />
+            {status || "-"}: {count} 件
+          </span>
+        ))}
+        {missingCount > 0 && <span className="text-gray-500">座標なし: {missingCount} 件（地図には表示されません）</span>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest"
+import { guessAddressMapping, mappedColumns, mappingFromColumns, scoreAddressColumns } from "@/lib/address-mapping"
+
+describe("mappingFromColumns", () => {
+  it("guesses roles from plain column names and rejects duplicates", () => {
+    expect(mappingFromColumns(["住所", "都道府県"]).slice(0, 2)).toEqual([
+      { role: "address", column: "住所", separator: "" },
+      { role: "pref", column: "都道府県", separator: "" },
+    ])
+    expect(() => mappingFromColumns(["住所1", "住所2"])).toThrow("重複")
+  })
+})
+
+describe("guessAddressMapping", () => {
+  const rows = [
+    { ID: "1", 電話: "03-1234-5678", 所在地1: "東京都新宿区", 所在地2: "西新宿2-8-1", 備考: "都庁", col5: "160-0023" },
+    { ID: "2", 電話: "06-1234-5678", 所在地1: "大阪府大阪市中央区", 所在地2: "大手前2丁目", 備考: "", col5: "540-8570" },
+  ]
+  const columns = Object.keys(rows[0])
+
+  it("scores columns by name and contents and keeps a sample value", () => {
+    const scores = scoreAddressColumns(columns, rows)
+    expect(scores.find((score) => score.column === "所在地1")).toMatchObject({
+      role: "address",
+      score: 100,
+      sample: "東京都新宿区",
+    })
+    expect(scores.find((score) => score.column === "col5")).toMatchObject({ role: "postalCode", score: 60 })
+    expect(scores.find((score) => score.column === "電話")).toMatchObject({ role: null, score: 0 })
+  })
+
+  it("suggests the split address columns in address order", () => {
+    const mapping = guessAddressMapping(columns, rows)
+    expect(mapping.filter((part) => part.column)).toEqual([
+      { role: "postalCode", column: "col5", separator: "" },
+      { role: "address", column: "所在地1", separator: "" },
+      { role: "block", column: "所在地2", separator: "" },
+    ])
+  })
+
+  it("falls back to the first column when nothing looks like an address", () => {
+    expect(mappedColumns(guessAddressMapping(["name", "note"], [{ name: "a", note: "b" }]))).toEqual(["name"])
+  })
+})
@@ -0,0 +1,180 @@
+import { PREFECTURES } from "@/lib/prefectures"
+
+export type AddressRole = "postalCode" | "pref" | "city" | "town" | "address" | "block" | "building"
+
+export interface AddressPart {
+  role: AddressRole
+  // "" when no column has this role
+  column: string
+  // Placed before this part when an earlier part is not empty
+  separator: string
+}
+
+// Parts in assembly order; every role appears exactly once
+export type AddressMapping = AddressPart[]
+
+export const ADDRESS_ROLES: { role: AddressRole; label: string; pattern: RegExp }[] = [
+  { role: "postalCode", label: "郵便番号", pattern: /郵便|〒|zip|postal/i },
+  { role: "pref", label: "都道府県", pattern: /都道府県|県名|pref/i },
+  { role: "city", label: "市区町村", pattern: /市区町村|市町村|市区|郡市|city|municipal/i },
+  { role: "town", label: "町域・大字", pattern: /町域|町名|町丁|大字|字名|town/i },
+  // A column that already holds the whole address, or whatever part the other roles do not cover
+  { role: "address", label: "住所（まとめて）", pattern: /住所|所在地|address/i },
+  { role: "block", label: "丁目・番地", pattern: /番地|丁目|地番|block|chome/i },
+  { role: "building", label: "建物名・部屋番号", pattern: /建物|ビル|マンション|部屋|building|room/i },
+]
+
+export const addressRoleLabel = (role: AddressRole) => ADDRESS_ROLES.find((r) => r.role === role)?.label ?? role
+
+// The postal code is only used to check the result, and building names confuse the geocoders
+export const GEOCODED_ROLES: AddressRole[] = ["pref", "city", "town", "address", "block"]
+
+export const EMPTY_ADDRESS_MAPPING: AddressMapping = ADDRESS_ROLES.map(({ role }) => ({ role, column: "", separator: "" }))
+
+/** Assigns a column to a role, taking it away from any other role that had it */
+export const assignColumn = (mapping: AddressMapping, role: AddressRole, column: string) =>
+  mapping.map((part) =>
+    part.role === role ? { ...part, column } : part.column === column && column ? { ...part, column: "" } : part
+  )
+
+export const mappedColumns = (mapping: AddressMapping) => mapping.filter((part) => part.column).map((part) => part.column)
+
+export const roleColumn = (mapping: AddressMapping, role: AddressRole) =>
+  mapping.find((part) => part.role === role)?.column ?? ""
+
+/** Whether the mapping gives the geocoder anything to work with */
+export const hasGeocodedColumn = (mapping: AddressMapping) =>
+  mapping.some((part) => part.column && GEOCODED_ROLES.includes(part.role))
+
+export interface ColumnScore {
+  column: string
+  // 0–100; names and contents both count
+  score: number
+  // The role the column looks most like, null when nothing matched
+  role: AddressRole | null
+  // First non-empty value, to show the user what the column holds
+  sample: string
+  reasons: string[]
+}
+
+// Below this a column is not suggested for its role
+export const MIN_SUGGESTED_SCORE = 30
+const HEADER_WEIGHT = 40
+const CONTENT_WEIGHT = 60
+
+const PREFECTURE_PATTERN = new RegExp(`^(${PREFECTURES.join("|")})`)
+const BLOCK_PATTERN = /^[^都道府県市区郡]*([\d一二三四五六七八九十]+丁目|\d+番|\d+号|\d+-\d+)/
+
+// Content checks run on NFKC-normalised, trimmed values
+const CONTENT_TESTS: Record<AddressRole, (value: string) => boolean> = {
+  postalCode: (value) => /^〒?\d{3}-?\d{4}$/.test(value),
+  pref: (value) => PREFECTURES.includes(value),
+  city: (value) => /^[^\d]{1,12}[市区町村郡]$/.test(value) && !PREFECTURE_PATTERN.test(value),
+  town: (value) => /^[^\d市区郡]{1,12}(町|丁|大字|字|通|条)/.test(value) && !/\d/.test(value),
+  address: (value) =>
+    (PREFECTURE_PATTERN.test(value) && value.length > 4) || /^[^\d]{1,12}[市区町村郡].*\d/.test(value),
+  // Leading zeros are left to phone numbers and dates
+  block: (value) => BLOCK_PATTERN.test(value) && !PREFECTURE_PATTERN.test(value) && !/(^|-)0\d/.test(value),
+  building: (value) => /ビル|マンション|ハイツ|アパート|コーポ|号室|\d+階|\d+F$/.test(value),
+}
+
+const looksLikeAddressValue = (value: string) => {
+  const normalized = value.normalize("NFKC").trim()
+  return normalized !== "" && ADDRESS_ROLES.some(({ role }) => CONTENT_TESTS[role](normalized))
+}
+
+/**
+ * Whether the first of some pasted rows holds column names: none of its cells
+ * looks like part of an address, and either one of them names an address
+ * part or the rows below hold address values.
+ */
+export const isHeaderRow = (cells: string[], body: string[][]) =>
+  !cells.some(looksLikeAddressValue) &&
+  (cells.some((cell) => ADDRESS_ROLES.some(({ pattern }) => pattern.test(cell))) ||
+    body.some((row) => row.some(looksLikeAddressValue)))
+
+/** Rates how well every column fits every role, using its name and a sample of its values */
+const scoreRoles = (columns: string[], rows: Record<string, string>[]) =>
+  columns.map((column) => {
+    const values = rows.map((row) => (row[column] ?? "").normalize("NFKC").trim()).filter(Boolean)
+    const roles = ADDRESS_ROLES.map(({ role, label, pattern }) => {
+      const reasons: string[] = []
+      let score = 0
+      if (pattern.test(column)) {
+        score += HEADER_WEIGHT
+        reasons.push(`列名が${label}らしい`)
+      }
+      const matched = values.filter(CONTENT_TESTS[role]).length
+      if (matched > 0) {
+        const ratio = matched / values.length
+        score += Math.round(CONTENT_WEIGHT * ratio)
+        reasons.push(`値の ${Math.round(ratio * 100)}% が${label}の形式`)
+      }
+      return { role, score, reasons }
+    })
+    return { column, sample: (rows.find((row) => row[column]?.trim())?.[column] ?? "").trim(), roles }
+  })
+
+/** The best role for each column with the score and reasons behind it */
+export const scoreAddressColumns = (columns: string[], rows: Record<string, string>[] = []): ColumnScore[] =>
+  scoreRoles(columns, rows).map(({ column, sample, roles }) => {
+    const best = roles.reduce((top, candidate) => (candidate.score > top.score ? candidate : top))
+    return best.score > 0
+      ? { column, score: best.score, role: best.role, sample, reasons: best.reasons }
+      : { column, score: 0, role: null, sample, reasons: [] }
+  })
+
+/**
+ * Picks a role for each column whose name or sampled values suggest one,
+ * highest scores first, so a column whose best role is taken can still fill
+ * its next best. The roles keep their usual order, which is how Japanese
+ * addresses are written. When nothing matches, the first column is taken to
+ * hold the whole address.
+ */
+export const guessAddressMapping = (columns: string[], rows: Record<string, string>[] = []): AddressMapping => {
+  const candidates = scoreRoles(columns, rows)
+    .flatMap(({ column, roles }) => roles.map(({ role, score }) => ({ column, role, score })))
+    .filter(({ score }) => score >= MIN_SUGGESTED_SCORE)
+    .sort((a, b) => b.score - a.score)
+  let mapping = EMPTY_ADDRESS_MAPPING
+  candidates.forEach(({ column, role }) => {
+    if (!roleColumn(mapping, role) && !mappedColumns(mapping).includes(column)) {
+      mapping = assignColumn(mapping, role, column)
+    }
+  })
+  if (!hasGeocodedColumn(mapping) && columns.length > 0) {
+    mapping = assignColumn(mapping, "address", columns.find((col) => !mappedColumns(mapping).includes(col)) ?? "")
+  }
+  return mapping
+}
+
+/**
+ * Builds a mapping from column names in the order given. Roles not given in
+ * `roles` are guessed from the column name; a column that matches no free
+ * role becomes the whole-address part. Two columns with one role is an error.
+ */
+export const mappingFromColumns = (columns: string[], roles: Partial<Record<string, AddressRole>> = {}) => {
+  const parts: AddressPart[] = []
+  columns.forEach((column) => {
+    const guessed = ADDRESS_ROLES.find(
+      ({ role, pattern }) =>
+        pattern.test(column) && !parts.some((part) => part.role === role) && !Object.values(roles).includes(role)
+    )
+    const role = roles[column] ?? guessed?.role ?? "address"
+    if (parts.some((part) => part.role === role)) {
+      throw new Error(`列「${column}」の役割（${addressRoleLabel(role)}）が他の列と重複しています`)
+    }
+    parts.push({ role, column, separator: "" })
+  })
+  // Unused roles keep their default place after the given ones
+  return [...parts, ...EMPTY_ADDRESS_MAPPING.filter((part) => !parts.some((p) => p.role === part.role))]
+}
+
+export const moveRole = (mapping: AddressMapping, role: AddressRole, offset: -1 | 1) => {
+  const from = mapping.findIndex((part) => part.role === role)
+  const to = from + offset
+  if (from < 0 || to < 0 || to >= mapping.length) return mapping
+  const moved = [...mapping]
+  ;[moved[from], moved[to]] = [moved[to], moved[from]]
+  return moved
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_NORMALIZATION_RULES,
+  kanjiToNumber,
+  normalizeAddress,
+  stripBlockNumbers,
+  stripBuilding,
+  type NormalizationRuleId,
+} from "@/lib/address-normalizer"
+
+const only = (rule: NormalizationRuleId, address: string) => normalizeAddress(address, [rule])
+
+describe("normalizeAddress", () => {
+  it("drops a leading postal code with or without the mark", () => {
+    expect(only("postalCode", "〒160-0023 東京都新宿区")).toBe("東京都新宿区")
+    expect(only("postalCode", "１６００７００東京都新宿区")).toBe("東京都新宿区")
+    expect(only("postalCode", "〒 東京都新宿区")).toBe("東京都新宿区")
+  })
+
+  it("turns full-width letters, digits and symbols into half-width ones", () => {
+    expect(only("width", "西新宿２－８－１　ＡＢＣビル")).toBe("西新宿2-8-1 ABCビル")
+  })
+
+  it("converts kanji numerals only in front of address units", () => {
+    expect(only("kanjiNumerals", "西新宿二丁目八番一号")).toBe("西新宿2丁目8番1号")
+    expect(only("kanjiNumerals", "北十二条西三丁目")).toBe("北12条西3丁目")
+    expect(only("kanjiNumerals", "千代田区二番町")).toBe("千代田区二番町")
+    expect(only("kanjiNumerals", "京都市下京区四条通")).toBe("京都市下京区四条通")
+    expect(only("kanjiNumerals", "京都市中京区二条城町")).toBe("京都市中京区二条城町")
+    expect(only("kanjiNumerals", "京都市上京区一条通")).toBe("京都市上京区一条通")
+    expect(only("kanjiNumerals", "札幌市中央区南一条")).toBe("札幌市中央区南1条")
+    expect(only("kanjiNumerals", "岩見沢市三条西一丁目")).toBe("岩見沢市3条西1丁目")
+    expect([kanjiToNumber("二十三"), kanjiToNumber("二三"), kanjiToNumber("百五"), kanjiToNumber("十")]).toEqual([
+      23, 23, 105, 10,
+    ])
+  })
+
+  it("writes block and house numbers with hyphens", () => {
+    expect(only("blockNumbers", "西新宿2丁目8番1号")).toBe("西新宿2丁目8-1")
+    expect(only("blockNumbers", "大手前8番地の1")).toBe("大手前8-1")
+    expect(only("blockNumbers", "大手前12番地 本館")).toBe("大手前12 本館")
+    expect(only("blockNumbers", "大手前2ー8ー1")).toBe("大手前2-8-1")
+  })
+
+  it("drops a trailing building name but keeps 条 and 丁目 addresses whole", () => {
+    expect(stripBuilding("西新宿2-8-1 都庁第一本庁舎")).toBe("西新宿2-8-1")
+    expect(stripBuilding("西新宿2-8-1サンシャインビル3F")).toBe("西新宿2-8-1")
+    expect(stripBuilding("北1条西2丁目")).toBe("北1条西2丁目")
+  })
+
+  it("removes half- and full-width spaces", () => {
+    expect(only("whitespace", "東京都 新宿区　西新宿")).toBe("東京都新宿区西新宿")
+  })
+
+  it("applies every default rule in order", () => {
+    expect(normalizeAddress("〒160-0023 東京都新宿区西新宿二丁目８番１号　都庁ビル", DEFAULT_NORMALIZATION_RULES)).toBe(
+      "東京都新宿区西新宿2丁目8-1"
+    )
+    expect(normalizeAddress(" 東京都 新宿区 ", [])).toBe("東京都 新宿区")
+  })
+})
+
+describe("stripBlockNumbers", () => {
+  it("cuts house numbers but keeps 丁目 and 条", () => {
+    expect(stripBlockNumbers("東京都新宿区西新宿2-8-1")).toBe("東京都新宿区西新宿")
+    expect(stripBlockNumbers("東京都新宿区西新宿2丁目8番1号")).toBe("東京都新宿区西新宿2丁目")
+    expect(stripBlockNumbers("北海道札幌市中央区北1条西2丁目")).toBe("北海道札幌市中央区北1条西2丁目")
+  })
+})
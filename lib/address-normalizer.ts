@@ -0,0 +1,123 @@
+export type NormalizationRuleId = "postalCode" | "width" | "kanjiNumerals" | "blockNumbers" | "building" | "whitespace"
+
+interface NormalizationRule {
+  id: NormalizationRuleId
+  label: string
+  apply: (address: string) => string
+}
+
+const KANJI_DIGITS: Record<string, number> = {
+  〇: 0,
+  一: 1,
+  二: 2,
+  三: 3,
+  四: 4,
+  五: 5,
+  六: 6,
+  七: 7,
+  八: 8,
+  九: 9,
+}
+
+const KANJI_UNITS: Record<string, number> = { 十: 10, 百: 100, 千: 1000 }
+
+/** Converts both positional ("二十三") and digit-by-digit ("二三") kanji numerals */
+export const kanjiToNumber = (kanji: string) => {
+  if (!/[十百千]/.test(kanji)) {
+    return Number(Array.from(kanji, (char) => KANJI_DIGITS[char]).join(""))
+  }
+  let total = 0
+  let current = 0
+  for (const char of kanji) {
+    if (char in KANJI_UNITS) {
+      total += (current || 1) * KANJI_UNITS[char]
+      current = 0
+    } else {
+      current = KANJI_DIGITS[char]
+    }
+  }
+  return total + current
+}
+
+// Kanji numerals only count as numbers in front of address units; "二番町" is a town name. A 条 only
+// counts in Hokkaido's grid form ("北十二条西三丁目"), so Kyoto's "四条通" and "二条城町" keep their names
+const KANJI_NUMBER_PATTERN =
+  /(?<=[東西南北])[〇一二三四五六七八九十百千]+(?=条)|[〇一二三四五六七八九十百千]+(?=条(?:[東西]|丁目)|丁目|番(?!町)|号|線|地割|-)/g
+
+const BUILDING_KEYWORDS = /(ビル|マンション|ハイツ|コーポ|アパート|レジデンス|タワー|ハウス|プラザ|センター|荘|棟|号室|階|\d+F)/
+const HOUSE_NUMBER_PATTERN = /\d+(?:-\d+)*号?/g
+
+/**
+ * Drops a trailing building or room name. The cut is made after the first
+ * house-number block that is followed by whitespace or a building keyword,
+ * so "北1条西2丁目" style addresses are left intact.
+ */
+export const stripBuilding = (address: string) => {
+  for (const match of address.matchAll(HOUSE_NUMBER_PATTERN)) {
+    // A number at the very start is a postal code or a bare number, not a house number
+    if (!match.index) continue
+    const end = match.index + match[0].length
+    const rest = address.slice(end)
+    if (!rest.trim()) return address
+    if (/^\s/.test(rest) || (!/^[条丁番号線地割の]/.test(rest) && BUILDING_KEYWORDS.test(rest))) {
+      return address.slice(0, end).replace(/号$/, "").trim()
+    }
+  }
+  return address
+}
+
+/**
+ * Cuts the address before its first house number ("西新宿2-8-1" → "西新宿",
+ * "西新宿2丁目8番1号" → "西新宿2丁目"). Numbers that belong to a 丁目 or a
+ * 条 stay, since they name the area rather than the lot.
+ */
+export const stripBlockNumbers = (address: string) => {
+  const match = /\d+(?=-|番|号|$)/.exec(address)
+  return match && match.index > 0 ? address.slice(0, match.index).trim() : address
+}
+
+export const NORMALIZATION_RULES: NormalizationRule[] = [
+  {
+    id: "postalCode",
+    label: "先頭の〒・郵便番号を除去",
+    apply: (address) => address.replace(/^\s*(〒\s*)?[0-9０-９]{3}[-－ー‐]?[0-9０-９]{4}\s*/, "").replace(/^〒\s*/, ""),
+  },
+  {
+    id: "width",
+    label: "全角英数字・記号を半角に統一",
+    apply: (address) => address.normalize("NFKC"),
+  },
+  {
+    id: "kanjiNumerals",
+    label: "漢数字（丁目・番・号の前）を算用数字に変換",
+    apply: (address) => address.replace(KANJI_NUMBER_PATTERN, (kanji) => String(kanjiToNumber(kanji))),
+  },
+  {
+    id: "blockNumbers",
+    label: "番地・号の表記をハイフン区切りに統一（1丁目2番3号 → 1丁目2-3）",
+    apply: (address) =>
+      address
+        .replace(/(\d)[‐‑‒–—―−ーｰ－](?=\d)/g, "$1-")
+        .replace(/(\d+)(?:番地?の?|の)(?=\d)/g, "$1-")
+        .replace(/(\d+)番地?(?=\s|$)/g, "$1")
+        .replace(/(\d+-\d+)号/g, "$1"),
+  },
+  {
+    id: "building",
+    label: "末尾の建物名・部屋番号を除去",
+    apply: stripBuilding,
+  },
+  {
+    id: "whitespace",
+    label: "空白を除去",
+    apply: (address) => address.replace(/[\s　]+/g, ""),
+  },
+]
+
+export const DEFAULT_NORMALIZATION_RULES: NormalizationRuleId[] = NORMALIZATION_RULES.map((rule) => rule.id)
+
+/** Applies the enabled rules in their fixed order */
+export const normalizeAddress = (address: string, enabled: NormalizationRuleId[]) =>
+  NORMALIZATION_RULES.filter((rule) => enabled.includes(rule.id))
+    .reduce((current, rule) => rule.apply(current), address)
+    .trim()
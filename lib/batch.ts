@@ -0,0 +1,121 @@
+import Papa from "papaparse"
+import type { AddressMapping } from "@/lib/address-mapping"
+import type { DetectedEncoding } from "@/lib/encoding"
+import type { CoordinateColumns, GeocodedRow } from "@/lib/pipeline"
+import type { SourceOptions } from "@/lib/source-file"
+
+// Settings each queued file keeps for itself
+export interface BatchFileSettings {
+  source: SourceOptions
+  addressMapping: AddressMapping
+  coordinates: CoordinateColumns
+}
+
+export interface BatchResult {
+  rows: GeocodedRow[]
+  cancelled: boolean
+  // Set when the file could not be processed at all; `rows` is then empty
+  error?: string
+}
+
+export interface BatchEntry {
+  id: number
+  file: File
+  // What the preview read found, shown when the file is selected again
+  columns: string[]
+  previewRows: Record<string, string>[]
+  sheetNames: string[]
+  detectedDelimiter: string
+  detectedEncoding: DetectedEncoding | null
+  settings: BatchFileSettings
+  // The file matches the interrupted job, whose results it resumes from
+  resume: boolean
+  result: BatchResult | null
+}
+
+/** Files with the same signature have the same columns in the same order */
+export const headerSignature = (columns: string[]) => JSON.stringify(columns)
+
+/** Copies the column choices of `from` onto the entries whose header matches it */
+export const shareColumnSettings = (entries: BatchEntry[], from: BatchEntry) =>
+  entries.map((entry) =>
+    entry.id !== from.id && headerSignature(entry.columns) === headerSignature(from.columns)
+      ? {
+          ...entry,
+          settings: {
+            ...entry.settings,
+            addressMapping: from.settings.addressMapping,
+            coordinates: from.settings.coordinates,
+          },
+        }
+      : entry
+  )
+
+// Status columns are keyed by the status itself
+export type BatchSummaryRow = Record<string, string | number> & { ファイル: string; 行数: number; 備考: string }
+
+export const countStatuses = (rows: GeocodedRow[]) => {
+  const counts = new Map<string, number>()
+  rows.forEach((row) => {
+    const status = row.geocoding_status ?? ""
+    counts.set(status, (counts.get(status) ?? 0) + 1)
+  })
+  return counts
+}
+
+/**
+ * One row per processed file with its status counts, followed by a total row.
+ * Statuses are listed in `statusOrder` first, then in order of appearance.
+ */
+export const buildBatchSummary = (entries: BatchEntry[], statusOrder: string[]) => {
+  const processed = entries.filter((entry) => entry.result)
+  const counts = processed.map((entry) => countStatuses(entry.result?.rows ?? []))
+  const statuses = [...statusOrder]
+  counts.forEach((fileCounts) =>
+    fileCounts.forEach((_, status) => {
+      if (!statuses.includes(status)) statuses.push(status)
+    })
+  )
+  const usedStatuses = statuses.filter((status) => counts.some((fileCounts) => fileCounts.has(status)))
+
+  const rows = processed.map((entry, i): BatchSummaryRow => ({
+    ファイル: entry.file.name,
+    行数: entry.result?.rows.length ?? 0,
+    ...Object.fromEntries(usedStatuses.map((status) => [status, counts[i].get(status) ?? 0])),
+    備考: entry.result?.error ?? (entry.result?.cancelled ? "キャンセル" : ""),
+  }))
+  const total: BatchSummaryRow = {
+    ファイル: "合計",
+    行数: rows.reduce((sum, row) => sum + row.行数, 0),
+    ...Object.fromEntries(
+      usedStatuses.map((status) => [status, counts.reduce((sum, fileCounts) => sum + (fileCounts.get(status) ?? 0), 0)])
+    ),
+    備考: "",
+  }
+  return { statuses: usedStatuses, rows: [...rows, total] }
+}
+
+export const summaryToCsv = (summary: ReturnType<typeof buildBatchSummary>) =>
+  Papa.unparse(summary.rows, { columns: ["ファイル", "行数", ...summary.statuses, "備考"] })
+
+/** Appends " (2)", " (3)", … before the extension until the name is unused */
+export const uniqueFileName = (name: string, used: Set<string>) => {
+  const dot = name.lastIndexOf(".")
+  const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""]
+  let candidate = name
+  for (let n = 2; used.has(candidate); n++) candidate = `${base} (${n})${extension}`
+  used.add(candidate)
+  return candidate
+}
+
+// Loaded on demand so that the page does not carry the ZIP library until it is needed
+export const loadJsZip = async () => (await import("jszip")).default
+
+/** Packs the given files into one ZIP archive */
+export const buildZip = async (files: { name: string; content: BlobPart }[]) => {
+  const JSZip = await loadJsZip()
+  const zip = new JSZip()
+  const used = new Set<string>()
+  files.forEach(({ name, content }) => zip.file(uniqueFileName(name, used), new Blob([content])))
+  return zip.generateAsync({ type: "blob", compression: "DEFLATE" })
+}
@@ -0,0 +1,47 @@
+export type CoordinateParseResult =
+  { ok: true; lat: number; lng: number } | { ok: false; reason: "empty" | "invalid" | "out_of_range" }
+
+const toNumber = (value: unknown) => {
+  const text = value === undefined || value === null ? "" : String(value).normalize("NFKC").trim()
+  return text === "" ? null : Number(text)
+}
+
+/** Validates a latitude/longitude pair taken from two separate cells */
+export const parseCoordinates = (latValue: unknown, lngValue: unknown): CoordinateParseResult => {
+  const lat = toNumber(latValue)
+  const lng = toNumber(lngValue)
+  if (lat === null && lng === null) return { ok: false, reason: "empty" }
+  if (lat === null || lng === null || !Number.isFinite(lat) || !Number.isFinite(lng)) {
+    return { ok: false, reason: "invalid" }
+  }
+  if (lat < -90 || lat > 90 || lng < -180 || lng > 180) return { ok: false, reason: "out_of_range" }
+  return { ok: true, lat, lng }
+}
+
+/** Validates a single "lat,lon" cell, the format written by the combined export */
+export const parseCombinedCoordinates = (value: unknown): CoordinateParseResult => {
+  const text = value === undefined || value === null ? "" : String(value).normalize("NFKC").trim()
+  if (!text) return { ok: false, reason: "empty" }
+  const parts = text.split(/\s*,\s*|\s+/)
+  if (parts.length !== 2) return { ok: false, reason: "invalid" }
+  return parseCoordinates(parts[0], parts[1])
+}
+
+// Six decimals (~0.1 m) so that float noise does not split identical points
+export const coordinateKey = (lat: number, lng: number) => `${lat.toFixed(6)},${lng.toFixed(6)}`
+
+export const COORDINATE_ERROR_MESSAGES: Record<Exclude<CoordinateParseResult, { ok: true }>["reason"], string> = {
+  empty: "座標が空です",
+  invalid: "座標の形式が不正です",
+  out_of_range: "座標が範囲外です",
+}
+
+const LAT_HEADER = /^(lat|latitude|緯度|y)$/i
+const LNG_HEADER = /^(lng|lon|long|longitude|経度|x)$/i
+const LAT_LON_HEADER = /^(lat_?lon|lat_?lng|latlon|latlng|緯度経度|緯度・経度|座標)$/i
+
+/** Picks likely coordinate columns from the header names */
+export const guessCoordinateColumns = (columns: string[]) => {
+  const find = (pattern: RegExp) => columns.find((col) => pattern.test(col.trim())) ?? ""
+  return { latColumn: find(LAT_HEADER), lngColumn: find(LNG_HEADER), latLonColumn: find(LAT_LON_HEADER) }
+}
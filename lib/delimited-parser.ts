@@ -0,0 +1,78 @@
+export interface DelimitedParser {
+  // Accepts text in arbitrary pieces; a row is emitted once its line ending has been seen
+  push(text: string): void
+  // Emits the last row when the input does not end with a line break
+  end(): void
+}
+
+/**
+ * Incremental RFC 4180 parser for streamed input. Quoted fields may contain
+ * delimiters, line breaks and doubled quotes, and may span `push` calls.
+ * Empty lines are skipped, as Papa Parse does with `skipEmptyLines`.
+ */
+export const createDelimitedParser = (delimiter: string, onRow: (cells: string[]) => void): DelimitedParser => {
+  let cells: string[] = []
+  let field = ""
+  let inQuotes = false
+  // A quote inside a quoted field: the next character decides whether it was escaped or closing
+  let quotePending = false
+  let afterCarriageReturn = false
+
+  const endField = () => {
+    cells.push(field)
+    field = ""
+  }
+
+  const endRow = () => {
+    endField()
+    if (cells.length > 1 || cells[0] !== "") onRow(cells)
+    cells = []
+  }
+
+  return {
+    push: (text) => {
+      for (const char of text) {
+        if (inQuotes) {
+          if (quotePending) {
+            quotePending = false
+            if (char === '"') {
+              field += '"'
+              continue
+            }
+            inQuotes = false
+          } else {
+            if (char === '"') {
+              quotePending = true
+            } else {
+              field += char
+            }
+            continue
+          }
+        }
+
+        if (afterCarriageReturn) {
+          afterCarriageReturn = false
+          if (char === "\n") continue
+        }
+
+        if (char === '"' && field === "") {
+          inQuotes = true
+        } else if (char === delimiter) {
+          endField()
+        } else if (char === "\n") {
+          endRow()
+        } else if (char === "\r") {
+          endRow()
+          afterCarriageReturn = true
+        } else {
+          field += char
+        }
+      }
+    },
+    end: () => {
+      inQuotes = false
+      quotePending = false
+      if (field !== "" || cells.length > 0) endRow()
+    },
+  }
+}
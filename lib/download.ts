@@ -0,0 +1,16 @@
+/** Triggers a browser download of `content` under `fileName` */
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType })
+  const link = document.createElement("a")
+  const url = URL.createObjectURL(blob)
+
+  link.setAttribute("href", url)
+  link.setAttribute("download", fileName)
+  link.style.visibility = "hidden"
+
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  // Revoke after the click has been handled so the download is not cut off
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
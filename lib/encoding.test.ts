@@ -0,0 +1,52 @@
+import Encoding from "encoding-japanese"
+import { describe, expect, it } from "vitest"
+import { detectEncoding, findUnencodableCharacters, INPUT_ENCODINGS } from "@/lib/encoding"
+
+// A file just over the 1 MiB sample, with `offset` ASCII bytes in front so the cut lands at a different byte
+const largeFile = (encoding: "SJIS" | "EUCJP" | "UTF8", offset: number) => {
+  const line = Encoding.convert(Encoding.stringToCode("東京都新宿区西新宿二丁目8番1号,都庁\n"), {
+    to: encoding,
+    from: "UNICODE",
+  })
+  const size = 1024 * 1024 + 4096
+  const bytes = new Uint8Array(size).fill(0x61, 0, offset)
+  for (let i = offset; i < size; i++) bytes[i] = line[(i - offset) % line.length]
+  return new File([bytes], "large.csv")
+}
+
+describe("detectEncoding", () => {
+  it("detects large files wherever the sample is cut", async () => {
+    const expected = { SJIS: "Shift_JIS", EUCJP: "EUC-JP", UTF8: "UTF-8" } as const
+    for (const encoding of ["SJIS", "EUCJP", "UTF8"] as const) {
+      for (let offset = 0; offset < 3; offset++) {
+        expect((await detectEncoding(largeFile(encoding, offset))).encoding).toBe(expected[encoding])
+      }
+    }
+  })
+
+  it("reads the byte order mark", async () => {
+    const file = new File([new Uint8Array([0xff, 0xfe, 0x4f, 0x60])], "utf16.csv")
+
+    expect(await detectEncoding(file)).toEqual({ encoding: "UTF-16LE", bom: true })
+  })
+
+  it("detects JIS files as an encoding the input select offers", async () => {
+    const bytes = Encoding.convert(Encoding.stringToCode("住所\n東京都新宿区西新宿\n"), { to: "JIS", from: "UNICODE" })
+    const { encoding } = await detectEncoding(new File([new Uint8Array(bytes)], "jis.csv"))
+
+    expect(encoding).toBe("ISO-2022-JP")
+    expect(INPUT_ENCODINGS.map(({ value }) => value)).toContain(encoding)
+  })
+})
+
+describe("findUnencodableCharacters", () => {
+  it("lists each character Shift_JIS cannot represent once, from column names and values", () => {
+    const rows = [
+      { 住所: "東京都葛飾区", 備考: "𠮷野家" },
+      { 住所: "大阪府", 備考: "𠮷", "🏠": 1 },
+    ]
+
+    expect(findUnencodableCharacters(rows, "shift_jis")).toEqual(["𠮷", "🏠"])
+    expect(findUnencodableCharacters(rows, "utf-8")).toEqual([])
+  })
+})
@@ -0,0 +1,106 @@
+import Encoding from "encoding-japanese"
+
+export const INPUT_ENCODINGS = [
+  { value: "UTF-8", label: "UTF-8" },
+  { value: "Shift_JIS", label: "Shift_JIS (シフトJIS / CP932)" },
+  { value: "EUC-JP", label: "EUC-JP" },
+  { value: "ISO-2022-JP", label: "ISO-2022-JP (JIS)" },
+  { value: "UTF-16LE", label: "UTF-16LE" },
+  { value: "UTF-16BE", label: "UTF-16BE" },
+]
+
+export type OutputEncoding = "utf-8" | "utf-8-bom" | "shift_jis"
+
+export const OUTPUT_ENCODINGS: { value: OutputEncoding; label: string }[] = [
+  { value: "utf-8", label: "UTF-8" },
+  { value: "utf-8-bom", label: "UTF-8（BOM付き・Excel向け）" },
+  { value: "shift_jis", label: "Shift_JIS（CP932）" },
+]
+
+export interface DetectedEncoding {
+  // A TextDecoder label
+  encoding: string
+  bom: boolean
+}
+
+const SAMPLE_BYTES = 1024 * 1024
+
+// encoding-japanese names → TextDecoder labels
+const DETECTED_LABELS: Partial<Record<string, string>> = {
+  UTF8: "UTF-8",
+  ASCII: "UTF-8",
+  SJIS: "Shift_JIS",
+  EUCJP: "EUC-JP",
+  JIS: "ISO-2022-JP",
+  UTF16LE: "UTF-16LE",
+  UTF16BE: "UTF-16BE",
+  // Without a BOM, UTF-16 is big-endian by definition
+  UTF16: "UTF-16BE",
+}
+
+const detectSample = (bytes: Uint8Array) =>
+  Encoding.detect(bytes, ["UTF16BE", "UTF16LE", "UTF16", "JIS", "UTF8", "EUCJP", "SJIS", "ASCII"])
+
+/**
+ * Guesses the text encoding of a file from its BOM, or failing that from
+ * the byte patterns of its first megabyte. Falls back to UTF-8.
+ */
+export const detectEncoding = async (file: File): Promise<DetectedEncoding> => {
+  let bytes = new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer())
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: "UTF-8", bom: true }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: "UTF-16LE", bom: true }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: "UTF-16BE", bom: true }
+
+  const truncated = file.size > bytes.length
+  // A cut sample may end inside a multi-byte character, which fails detection; no trail byte is ever a line feed
+  const lineEnd = truncated ? bytes.lastIndexOf(0x0a) : -1
+  if (lineEnd > 0) bytes = bytes.subarray(0, lineEnd + 1)
+  let detected = detectSample(bytes)
+  // UTF-16 can still be cut between the two bytes of its line feed
+  for (let trim = 1; truncated && !detected && trim < 4; trim++) detected = detectSample(bytes.subarray(0, -trim))
+  return { encoding: (detected && DETECTED_LABELS[detected]) || "UTF-8", bom: false }
+}
+
+const canEncodeShiftJis = (char: string) => {
+  try {
+    Encoding.convert(Encoding.stringToCode(char), { to: "SJIS", from: "UNICODE", fallback: "error" })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Lists the distinct characters of the rows' column names and values that
+ * the output encoding cannot represent. Rows are scanned one at a time and
+ * each character is checked once, however often it appears.
+ */
+export const findUnencodableCharacters = (rows: Record<string, unknown>[], encoding: OutputEncoding) => {
+  if (encoding !== "shift_jis") return []
+  const seen = new Set<string>()
+  const found: string[] = []
+  const scan = (text: string) => {
+    for (const char of text) {
+      if (seen.has(char)) continue
+      seen.add(char)
+      if (char.charCodeAt(0) > 0x7f && !canEncodeShiftJis(char)) found.push(char)
+    }
+  }
+  for (const row of rows) {
+    for (const [column, value] of Object.entries(row)) {
+      scan(column)
+      if (value !== undefined && value !== null) scan(String(value))
+    }
+  }
+  return found
+}
+
+/** Encodes text for download; Shift_JIS writes "?" for characters it cannot represent */
+export const encodeText = (text: string, encoding: OutputEncoding): BlobPart => {
+  if (encoding === "shift_jis") {
+    return new Uint8Array(Encoding.convert(Encoding.stringToCode(text), { to: "SJIS", from: "UNICODE" }))
+  }
+  return encoding === "utf-8-bom" ? `\uFEFF${text}` : text
+}
+
+export const outputCharset = (encoding: OutputEncoding) => (encoding === "shift_jis" ? "shift_jis" : "utf-8")
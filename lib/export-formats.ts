@@ -0,0 +1,17 @@
+export type ExportFormat = "csv" | "tsv" | "xlsx" | "geojson" | "kml" | "gpx"
+
+export type ExportRow = Record<string, string | number | undefined>
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: "csv", label: "CSV", extension: "csv", mimeType: "text/csv;charset=utf-8;" },
+  { id: "tsv", label: "TSV", extension: "tsv", mimeType: "text/tab-separated-values;charset=utf-8;" },
+  {
+    id: "xlsx",
+    label: "Excel (.xlsx)",
+    extension: "xlsx",
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+  { id: "geojson", label: "GeoJSON", extension: "geojson", mimeType: "application/geo+json" },
+  { id: "kml", label: "KML", extension: "kml", mimeType: "application/vnd.google-earth.kml+xml" },
+  { id: "gpx", label: "GPX", extension: "gpx", mimeType: "application/gpx+xml" },
+]
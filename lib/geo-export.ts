@@ -0,0 +1,107 @@
+import type { ExportRow } from "@/lib/export-formats"
+
+export interface GeoExportOptions {
+  // Returns the point for a row, or null when the row has no usable coordinates
+  getCoordinates: (row: ExportRow) => { lat: number; lng: number } | null
+  // Rows without coordinates are dropped when false; otherwise written without geometry
+  includeMissing: boolean
+  // Column used as the placemark / waypoint name and description (KML, GPX)
+  nameColumn?: string
+  descriptionColumn?: string
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+
+const cellText = (row: ExportRow, column: string | undefined) => {
+  if (!column) return ""
+  const value = row[column]
+  return value === undefined ? "" : String(value)
+}
+
+/** FeatureCollection with every column of the row as a property */
+export const toGeoJSON = (rows: ExportRow[], { getCoordinates, includeMissing }: GeoExportOptions) => {
+  const features = rows.flatMap((row) => {
+    const point = getCoordinates(row)
+    if (!point && !includeMissing) return []
+    const properties = Object.fromEntries(Object.entries(row).map(([key, value]) => [key, value ?? null]))
+    return [
+      {
+        type: "Feature",
+        geometry: point ? { type: "Point", coordinates: [point.lng, point.lat] } : null,
+        properties,
+      },
+    ]
+  })
+  return JSON.stringify({ type: "FeatureCollection", features }, null, 2)
+}
+
+export const toKML = (
+  rows: ExportRow[],
+  { getCoordinates, includeMissing, nameColumn, descriptionColumn }: GeoExportOptions,
+  documentName: string
+) => {
+  const placemarks = rows.flatMap((row) => {
+    const point = getCoordinates(row)
+    if (!point && !includeMissing) return []
+    const data = Object.entries(row)
+      .map(
+        ([key, value]) =>
+          `        <Data name="${escapeXml(key)}"><value>${escapeXml(value === undefined ? "" : String(value))}</value></Data>`
+      )
+      .join("\n")
+    return [
+      [
+        "    <Placemark>",
+        `      <name>${escapeXml(cellText(row, nameColumn))}</name>`,
+        `      <description>${escapeXml(cellText(row, descriptionColumn))}</description>`,
+        "      <ExtendedData>",
+        data,
+        "      </ExtendedData>",
+        // A placemark without geometry is valid KML and keeps the row's data
+        point ? `      <Point><coordinates>${point.lng},${point.lat}</coordinates></Point>` : "",
+        "    </Placemark>",
+      ]
+        .filter((line) => line)
+        .join("\n"),
+    ]
+  })
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "  <Document>",
+    `    <name>${escapeXml(documentName)}</name>`,
+    ...placemarks,
+    "  </Document>",
+    "</kml>",
+    "",
+  ].join("\n")
+}
+
+// GPX waypoints require lat/lon, so rows without coordinates are always omitted
+export const toGPX = (rows: ExportRow[], { getCoordinates, nameColumn, descriptionColumn }: GeoExportOptions) => {
+  const waypoints = rows.flatMap((row) => {
+    const point = getCoordinates(row)
+    if (!point) return []
+    return [
+      [
+        `  <wpt lat="${point.lat}" lon="${point.lng}">`,
+        `    <name>${escapeXml(cellText(row, nameColumn))}</name>`,
+        `    <desc>${escapeXml(cellText(row, descriptionColumn))}</desc>`,
+        "  </wpt>",
+      ].join("\n"),
+    ]
+  })
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="address-to-latlon" xmlns="http://www.topografix.com/GPX/1/1">',
+    ...waypoints,
+    "</gpx>",
+    "",
+  ].join("\n")
+}
@@ -0,0 +1,36 @@
+import { GEOCODE_STORE, withStore } from "@/lib/idb"
+
+interface CacheEntry<T> {
+  key: string
+  result: T
+  storedAt: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Normalizes an address so that width and whitespace variants share one cache entry */
+export const normalizeCacheKey = (address: string) => address.normalize("NFKC").replace(/\s+/g, "").trim()
+
+const entryKey = (namespace: string, address: string) => `${namespace}|${normalizeCacheKey(address)}`
+
+/** Returns the cached result, or undefined when missing or older than `ttlDays` */
+export const getCachedResult = async <T>(namespace: string, address: string, ttlDays: number) => {
+  const key = entryKey(namespace, address)
+  const entry = await withStore<CacheEntry<T> | undefined>(GEOCODE_STORE, "readonly", (store) => store.get(key))
+  if (!entry) return undefined
+  if (Date.now() - entry.storedAt > ttlDays * DAY_MS) {
+    await withStore(GEOCODE_STORE, "readwrite", (store) => store.delete(key))
+    return undefined
+  }
+  return entry.result
+}
+
+// Only matches are cached: a miss may be a transient provider error
+export const putCachedResult = async <T>(namespace: string, address: string, result: T) => {
+  const entry: CacheEntry<T> = { key: entryKey(namespace, address), result, storedAt: Date.now() }
+  await withStore(GEOCODE_STORE, "readwrite", (store) => store.put(entry))
+}
+
+export const countCachedResults = () => withStore(GEOCODE_STORE, "readonly", (store) => store.count())
+
+export const clearCache = () => withStore(GEOCODE_STORE, "readwrite", (store) => store.clear())
@@ -0,0 +1,99 @@
+import type { GeocodingMode } from "@/lib/geocoders"
+import type { CheckpointSettings, JobCheckpoint } from "@/lib/job-checkpoint"
+import type { JobProgress } from "@/lib/job-runner"
+import type { CoordinateColumns, ForwardSettings, GeocodedRow, Lookup } from "@/lib/pipeline"
+import type { SourceOptions } from "@/lib/source-file"
+
+export interface GeocodeJobRequest {
+  file: File
+  source: SourceOptions
+  mode: GeocodingMode
+  forward: ForwardSettings
+  coordinateColumns: CoordinateColumns
+  concurrency: number
+  requestsPerSecond: number
+  // Whether the page has a result cache to settle lookups from before they are queued
+  useCache: boolean
+  checkpoint: { settings: CheckpointSettings; saved: JobCheckpoint | null }
+}
+
+// "reading" counts bytes of the source file, "geocoding" counts distinct lookups
+export type GeocodeJobPhase = "reading" | "geocoding"
+
+export type ClientMessage =
+  | { type: "start"; request: GeocodeJobRequest }
+  | { type: "lookup-result"; id: number; result: unknown }
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "cancel" }
+
+export type WorkerMessage =
+  // "cached" asks the page's cache alone and is answered with undefined on a miss
+  | { type: "lookup" | "cached"; id: number; key: string }
+  | { type: "progress"; phase: GeocodeJobPhase; progress: JobProgress }
+  | { type: "rows"; rows: GeocodedRow[] }
+  | { type: "done"; cancelled: boolean }
+  | { type: "error"; message: string }
+
+export interface GeocodeJobHandlers {
+  // Runs on the main thread, where the provider script and the result cache live
+  lookup: Lookup<unknown>
+  onProgress: (phase: GeocodeJobPhase, progress: JobProgress) => void
+}
+
+/**
+ * Runs a geocoding job in a Web Worker. The worker streams and parses the
+ * file, deduplicates, checkpoints and rate-limits; each lookup is sent back
+ * here so that providers which need the page (such as the Geolonia script)
+ * keep working. Finished rows arrive in batches, in source order, while the
+ * job runs and are appended to the one result array.
+ */
+export const createGeocodeWorkerJob = (request: GeocodeJobRequest, { lookup, onProgress }: GeocodeJobHandlers) => {
+  const worker = new Worker(new URL("./geocode.worker.ts", import.meta.url))
+  const send = (message: ClientMessage) => worker.postMessage(message)
+
+  return {
+    start: () =>
+      new Promise<{ rows: GeocodedRow[]; cancelled: boolean }>((resolve, reject) => {
+        const rows: GeocodedRow[] = []
+        const fail = (message: string) => {
+          worker.terminate()
+          reject(new Error(message))
+        }
+
+        worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+          const message = event.data
+          switch (message.type) {
+            case "lookup":
+              lookup(message.key)
+                .catch(() => ({ result: null, fromCache: false }))
+                .then((result) => send({ type: "lookup-result", id: message.id, result }))
+              break
+            case "cached":
+              Promise.resolve(lookup.cached?.(message.key))
+                .catch(() => undefined)
+                .then((result) => send({ type: "lookup-result", id: message.id, result }))
+              break
+            case "progress":
+              onProgress(message.phase, message.progress)
+              break
+            case "rows":
+              for (const row of message.rows) rows.push(row)
+              break
+            case "done":
+              worker.terminate()
+              resolve({ rows, cancelled: message.cancelled })
+              break
+            case "error":
+              fail(message.message)
+              break
+          }
+        }
+        worker.onerror = (event) => fail(event.message || "ワーカーの実行中にエラーが発生しました")
+        send({ type: "start", request })
+      }),
+    pause: () => send({ type: "pause" }),
+    resume: () => send({ type: "resume" }),
+    cancel: () => send({ type: "cancel" }),
+  }
+}
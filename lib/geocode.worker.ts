@@ -0,0 +1,149 @@
+import type { ClientMessage, GeocodeJobPhase, GeocodeJobRequest, WorkerMessage } from "@/lib/geocode-worker"
+import { createCheckpointedQueueRunner, discardCheckpoint } from "@/lib/job-checkpoint"
+import type { JobProgress, JobRunner } from "@/lib/job-runner"
+import {
+  geocodeRows,
+  reverseGeocodeRows,
+  type AddressLookup,
+  type GeocodedRow,
+  type Lookup,
+  type ReverseLookup,
+} from "@/lib/pipeline"
+import { streamSourceTable } from "@/lib/source-file"
+
+// Typed by hand: the DOM and WebWorker libs cannot both be loaded in one project
+const scope = self as unknown as {
+  postMessage: (message: WorkerMessage) => void
+  onmessage: ((event: MessageEvent<ClientMessage>) => void) | null
+}
+
+const PROGRESS_INTERVAL_MS = 200
+// Finished rows per message, so no single clone holds the whole dataset
+const RESULT_BATCH_SIZE = 5000
+
+let runner: JobRunner<unknown> | null = null
+let paused = false
+let cancelled = false
+let nextLookupId = 0
+const pendingLookups = new Map<number, (result: unknown) => void>()
+
+const post = (message: WorkerMessage) => scope.postMessage(message)
+
+const ask = <T>(type: "lookup" | "cached", key: string) =>
+  new Promise<T>((resolve) => {
+    const id = nextLookupId++
+    pendingLookups.set(id, resolve as (result: unknown) => void)
+    post({ type, id, key })
+  })
+
+// Lookups are answered by the page, see createGeocodeWorkerJob; so are cache reads when it has a cache
+const createLookup = <T>(useCache: boolean) => {
+  const lookup: Lookup<T> = (key) => ask<T>("lookup", key)
+  if (useCache) lookup.cached = (key) => ask<T | undefined>("cached", key)
+  return lookup
+}
+
+// Posts at most one progress message per interval; the final state is always sent
+const createProgressReporter = (phase: GeocodeJobPhase) => {
+  let lastPostedAt = 0
+  return (progress: JobProgress, force = false) => {
+    const now = Date.now()
+    if (!force && now - lastPostedAt < PROGRESS_INTERVAL_MS) return
+    lastPostedAt = now
+    post({ type: "progress", phase, progress })
+  }
+}
+
+// Sends finished rows on as they come, RESULT_BATCH_SIZE at a time, so the worker never holds them all
+const createRowPoster = () => {
+  let batch: GeocodedRow[] = []
+  const flush = () => {
+    if (batch.length > 0) post({ type: "rows", rows: batch })
+    batch = []
+  }
+  return {
+    add: (rows: GeocodedRow[]) => {
+      for (const row of rows) {
+        batch.push(row)
+        if (batch.length >= RESULT_BATCH_SIZE) flush()
+      }
+    },
+    flush,
+  }
+}
+
+const run = async (request: GeocodeJobRequest) => {
+  const { file } = request
+  const reportReading = createProgressReporter("reading")
+  const table = await streamSourceTable(file, request.source, {
+    onProgress: (bytesRead) =>
+      reportReading({ processed: bytesRead, total: file.size, rate: 0, etaMs: null }, bytesRead === file.size),
+    isCancelled: () => cancelled,
+  })
+  if (!table) throw new Error("ファイルの読み込みを中止しました")
+
+  const reportGeocoding = createProgressReporter("geocoding")
+  const runQueue = createCheckpointedQueueRunner({
+    file,
+    settings: request.checkpoint.settings,
+    saved: request.checkpoint.saved,
+    concurrency: request.concurrency,
+    requestsPerSecond: request.requestsPerSecond,
+    onProgress: (progress) => reportGeocoding(progress, progress.processed === progress.total),
+    onRunner: (created) => {
+      runner = created
+      // Pause or cancel requests that arrived while the file was still being read
+      if (paused) created.pause()
+      if (cancelled) created.cancel()
+    },
+  })
+  const rows = createRowPoster()
+  const { cancelled: jobCancelled } =
+    request.mode === "forward"
+      ? await geocodeRows(
+          table.rows,
+          request.forward,
+          createLookup<AddressLookup>(request.useCache),
+          runQueue,
+          rows.add
+        )
+      : await reverseGeocodeRows(
+          table.rows,
+          request.coordinateColumns,
+          createLookup<ReverseLookup>(request.useCache),
+          runQueue,
+          rows.add
+        )
+
+  // The last pass has ended one way or the other, so there is nothing left to resume
+  await discardCheckpoint().catch(() => undefined)
+  rows.flush()
+  post({ type: "done", cancelled: jobCancelled })
+}
+
+scope.onmessage = (event) => {
+  const message = event.data
+  switch (message.type) {
+    case "start":
+      run(message.request).catch((err) =>
+        post({ type: "error", message: err instanceof Error ? err.message : String(err) })
+      )
+      break
+    case "lookup-result":
+      pendingLookups.get(message.id)?.(message.result)
+      pendingLookups.delete(message.id)
+      break
+    case "pause":
+      paused = true
+      runner?.pause()
+      break
+    case "resume":
+      paused = false
+      runner?.resume()
+      break
+    case "cancel":
+      cancelled = true
+      runner?.cancel()
+      break
+  }
+}
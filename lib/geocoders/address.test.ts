@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest"
+import { levelFromParts, splitJapaneseAddress } from "./address"
+
+describe("splitJapaneseAddress", () => {
+  it("keeps municipality names that contain 市, 町 or 村", () => {
+    expect(splitJapaneseAddress("三重県四日市市諏訪町1-5")).toEqual({
+      pref: "三重県",
+      city: "四日市市",
+      town: "諏訪町",
+      addr: "1-5",
+    })
+    expect(splitJapaneseAddress("長野県大町市大町3887").city).toBe("大町市")
+    expect(splitJapaneseAddress("東京都西多摩郡奥多摩町氷川215-6").city).toBe("西多摩郡奥多摩町")
+  })
+
+  it("prefers the ward of a designated city", () => {
+    expect(splitJapaneseAddress("北海道札幌市中央区北1条西2丁目")).toMatchObject({
+      city: "札幌市中央区",
+      town: "北",
+    })
+  })
+
+  it("falls back to the pattern for names missing from the code table", () => {
+    const parts = splitJapaneseAddress("東京都架空市本町1-1")
+
+    expect(parts).toMatchObject({ pref: "東京都", city: "架空市", town: "本町" })
+    expect(levelFromParts(parts)).toBe(3)
+  })
+})
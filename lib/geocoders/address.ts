@@ -0,0 +1,30 @@
+import { leadingMunicipality } from "@/lib/municipalities"
+
+const PREF_PATTERN = /^(東京都|北海道|(?:京都|大阪)府|.{2,3}県)/
+// 政令市の区、郡部の町村、東京23区を市区町村として扱う。コード表にない名前だけに使う
+const CITY_PATTERN = /^(.+?郡.+?[町村]|.+?市.+?区|.+?[市区町村])/
+
+/**
+ * Splits a Japanese address string into prefecture, municipality and the
+ * remaining part. Used by providers that return only a flat title. The
+ * municipality is taken from the code table where possible, since names
+ * such as 四日市市 or 大町市 contain the characters the pattern splits on.
+ */
+export const splitJapaneseAddress = (address: string) => {
+  let rest = address.trim()
+  const pref = rest.match(PREF_PATTERN)?.[1] ?? ""
+  rest = rest.slice(pref.length)
+  const city = leadingMunicipality(pref, rest) || (rest.match(CITY_PATTERN)?.[1] ?? "")
+  rest = rest.slice(city.length)
+  const town = rest.match(/^[^0-9０-９\-－ー]+/)?.[0] ?? ""
+  const addr = rest.slice(town.length)
+  return { pref, city, town, addr }
+}
+
+/** Derives a match level from which address parts could be resolved */
+export const levelFromParts = (parts: { pref: string; city: string; town: string }) => {
+  if (parts.town) return 3
+  if (parts.city) return 2
+  if (parts.pref) return 1
+  return 0
+}
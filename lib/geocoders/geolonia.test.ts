@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it } from "vitest"
+import { classifyLookupError } from "@/lib/lookup-retry"
+import { createGeoloniaProvider } from "./geolonia"
+
+type GetLatLng = typeof getLatLng
+
+// Stands in for the function the community geocoder script defines on the page
+const stubGetLatLng = (implementation: GetLatLng | undefined) => {
+  ;(globalThis as { getLatLng?: GetLatLng }).getLatLng = implementation
+}
+
+describe("createGeoloniaProvider", () => {
+  afterEach(() => {
+    delete (globalThis as { getLatLng?: GetLatLng }).getLatLng
+  })
+
+  it("treats only a missing address as no match", async () => {
+    stubGetLatLng((_address, _callback, errorCallback) => errorCallback?.(new Error("Can not find the address.")))
+
+    expect(await createGeoloniaProvider().geocode("東京都架空町")).toBeNull()
+  })
+
+  it("rejects fetch failures so that they are retried as network errors", async () => {
+    stubGetLatLng((_address, _callback, errorCallback) => errorCallback?.(new TypeError("Failed to fetch")))
+
+    const error = await createGeoloniaProvider()
+      .geocode("東京都新宿区西新宿2-8-1")
+      .catch((err: unknown) => err)
+
+    expect(classifyLookupError(error)).toBe("network")
+  })
+
+  it("rejects when the script has not been loaded", async () => {
+    await expect(createGeoloniaProvider().geocode("東京都新宿区西新宿2-8-1")).rejects.toThrow("読み込まれていません")
+  })
+})
@@ -0,0 +1,57 @@
+import type { GeocoderResult, GeocodingProvider } from "./types"
+
+declare global {
+  function getLatLng(
+    address: string,
+    callback: (result: GeocoderResult) => void,
+    errorCallback?: (error: Error) => void
+  ): void
+}
+
+const SCRIPT_URL = "https://cdn.geolonia.com/community-geocoder.js"
+
+// Shared across provider instances so the script is injected only once per page
+let scriptPromise: Promise<void> | null = null
+
+const loadScript = () => {
+  if (typeof getLatLng !== "undefined") return Promise.resolve()
+  if (!scriptPromise) {
+    scriptPromise = new Promise((resolve, reject) => {
+      const script = document.createElement("script")
+      script.src = SCRIPT_URL
+      script.async = true
+      script.onload = () => resolve()
+      script.onerror = () => {
+        scriptPromise = null
+        script.remove()
+        reject(new Error("Failed to load geocoding service"))
+      }
+      document.body.appendChild(script)
+    })
+  }
+  return scriptPromise
+}
+
+// The community geocoder reports an unknown address through the same callback as its fetch failures
+const NO_MATCH_PATTERN = /can ?not find|not found|見つかりません/i
+
+/** Whether an error from the community geocoder only says that the address has no match */
+export const isNoMatchError = (error: unknown) => error instanceof Error && NO_MATCH_PATTERN.test(error.message)
+
+export const createGeoloniaProvider = (): GeocodingProvider => ({
+  id: "geolonia",
+  namespace: "geolonia",
+  load: loadScript,
+  geocode: (address) =>
+    new Promise((resolve, reject) => {
+      if (typeof getLatLng === "undefined") {
+        reject(new Error("ジオコーディングサービスが読み込まれていません"))
+        return
+      }
+      getLatLng(
+        address,
+        (result) => resolve(result),
+        (error) => (isNoMatchError(error) ? resolve(null) : reject(error))
+      )
+    }),
+})
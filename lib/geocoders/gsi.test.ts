@@ -0,0 +1,41 @@
+import axios from "axios"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { createGsiProvider } from "./gsi"
+
+// Answers the reverse geocoder request with the given payload instead of calling the API
+const stubReverseResponse = (results: { muniCd: string; lv01Nm: string } | undefined) =>
+  vi.spyOn(axios, "get").mockResolvedValue({ data: { results } })
+
+describe("createGsiProvider reverseGeocode", () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("names the prefecture and municipality of the returned code", async () => {
+    stubReverseResponse({ muniCd: "13104", lv01Nm: "西新宿二丁目" })
+
+    expect(await createGsiProvider().reverseGeocode?.(35.6896, 139.6921)).toEqual({
+      pref: "東京都",
+      city: "新宿区",
+      town: "西新宿二丁目",
+      address: "東京都新宿区西新宿二丁目",
+    })
+  })
+
+  it("reads codes without the leading zero and leaves out a missing town", async () => {
+    stubReverseResponse({ muniCd: "1101", lv01Nm: "－" })
+
+    expect(await createGsiProvider().reverseGeocode?.(43.0642, 141.3469)).toEqual({
+      pref: "北海道",
+      city: "札幌市中央区",
+      town: "",
+      address: "北海道札幌市中央区",
+    })
+  })
+
+  it("finds nothing for points outside Japan", async () => {
+    stubReverseResponse(undefined)
+
+    expect(await createGsiProvider().reverseGeocode?.(0, 0)).toBeNull()
+  })
+})
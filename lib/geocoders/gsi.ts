@@ -0,0 +1,43 @@
+import axios from "axios"
+import { municipalityName, prefectureOfMunicipality } from "@/lib/municipalities"
+import { levelFromParts, splitJapaneseAddress } from "./address"
+import type { GeocodingProvider } from "./types"
+
+const ENDPOINT = "https://msearch.gsi.go.jp/address-search/AddressSearch"
+const REVERSE_ENDPOINT = "https://mreversegeocoder.gsi.go.jp/reverse-geocoder/LonLatToAddress"
+
+interface GsiFeature {
+  geometry: { coordinates: [number, number] }
+  properties: { title: string }
+}
+
+interface GsiReverseResponse {
+  results?: { muniCd: string; lv01Nm: string }
+}
+
+export const createGsiProvider = (): GeocodingProvider => ({
+  id: "gsi",
+  namespace: "gsi",
+  load: () => Promise.resolve(),
+  geocode: async (address) => {
+    const response = await axios.get<GsiFeature[]>(ENDPOINT, { params: { q: address } })
+    const feature = response.data[0]
+    if (!feature) return null
+
+    // The API only returns a flat title, so split it to fill the normalized parts
+    const [lng, lat] = feature.geometry.coordinates
+    const parts = splitJapaneseAddress(feature.properties.title)
+    return { lat, lng, level: levelFromParts(parts), ...parts }
+  },
+  reverseGeocode: async (lat, lng) => {
+    const response = await axios.get<GsiReverseResponse>(REVERSE_ENDPOINT, { params: { lat, lon: lng } })
+    const result = response.data.results
+    if (!result) return null
+
+    // Only a municipality code is returned, so both names come from the bundled code table
+    const pref = prefectureOfMunicipality(result.muniCd)
+    const city = municipalityName(result.muniCd)
+    const town = result.lv01Nm === "－" ? "" : result.lv01Nm
+    return { pref, city, town, address: `${pref}${city}${town}` }
+  },
+})
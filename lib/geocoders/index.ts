@@ -0,0 +1,32 @@
+import { createGeoloniaProvider } from "./geolonia"
+import { createGsiProvider } from "./gsi"
+import { createMockProvider } from "./mock"
+import { createNominatimProvider, DEFAULT_NOMINATIM_URL } from "./nominatim"
+import type { GeocodingProvider, ProviderId } from "./types"
+
+export type { GeocoderResult, GeocodingMode, GeocodingProvider, ProviderId, ReverseGeocoderResult } from "./types"
+export { createGeoloniaProvider, createGsiProvider, createMockProvider, createNominatimProvider, DEFAULT_NOMINATIM_URL }
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string }[] = [
+  { id: "geolonia", label: "Geolonia コミュニティジオコーダー" },
+  { id: "gsi", label: "国土地理院 住所検索" },
+  { id: "nominatim", label: "Nominatim 互換 API" },
+  { id: "mock", label: "モック（オフライン検証用）" },
+]
+
+export interface ProviderSettings {
+  nominatimUrl?: string
+}
+
+export const createProvider = (id: ProviderId, settings: ProviderSettings = {}): GeocodingProvider => {
+  switch (id) {
+    case "geolonia":
+      return createGeoloniaProvider()
+    case "gsi":
+      return createGsiProvider()
+    case "nominatim":
+      return createNominatimProvider(settings.nominatimUrl || DEFAULT_NOMINATIM_URL)
+    case "mock":
+      return createMockProvider()
+  }
+}
@@ -0,0 +1,10 @@
+import { describe, expect, it } from "vitest"
+import { createMockProvider } from "./mock"
+
+describe("createMockProvider", () => {
+  it("does not answer with inherited object properties", async () => {
+    const provider = createMockProvider({ generate: false })
+
+    expect(await provider.geocode("constructor")).toBeNull()
+  })
+})
@@ -0,0 +1,65 @@
+import { coordinateKey } from "@/lib/coordinates"
+import { PREFECTURES } from "@/lib/prefectures"
+import { levelFromParts, splitJapaneseAddress } from "./address"
+import type { GeocoderResult, GeocodingProvider, ReverseGeocoderResult } from "./types"
+
+// Rough bounding box of mainland Japan used for generated coordinates
+const LAT_RANGE = [31, 45] as const
+const LNG_RANGE = [129, 145] as const
+
+// FNV-1a, so the same address always maps to the same point
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+export interface MockProviderOptions {
+  // Fixed results by exact address; addresses not listed fall back to generated points
+  entries?: Record<string, GeocoderResult | null>
+  // Fixed reverse results keyed by `coordinateKey(lat, lng)`
+  reverseEntries?: Record<string, ReverseGeocoderResult | null>
+  // When false, addresses missing from `entries` resolve to null
+  generate?: boolean
+}
+
+/**
+ * Deterministic in-memory provider for tests and offline checks. It never
+ * touches the network.
+ */
+export const createMockProvider = ({
+  entries = {},
+  reverseEntries = {},
+  generate = true,
+}: MockProviderOptions = {}): GeocodingProvider => ({
+  id: "mock",
+  namespace: "mock",
+  load: () => Promise.resolve(),
+  geocode: async (address) => {
+    if (Object.prototype.hasOwnProperty.call(entries, address)) return entries[address]
+    if (!generate) return null
+
+    const hash = hashString(address)
+    const parts = splitJapaneseAddress(address)
+    return {
+      lat: LAT_RANGE[0] + ((hash & 0xffff) / 0xffff) * (LAT_RANGE[1] - LAT_RANGE[0]),
+      lng: LNG_RANGE[0] + ((hash >>> 16) / 0xffff) * (LNG_RANGE[1] - LNG_RANGE[0]),
+      level: levelFromParts(parts),
+      ...parts,
+    }
+  },
+  reverseGeocode: async (lat, lng) => {
+    const key = coordinateKey(lat, lng)
+    if (Object.prototype.hasOwnProperty.call(reverseEntries, key)) return reverseEntries[key]
+    if (!generate) return null
+
+    const hash = hashString(key)
+    const pref = PREFECTURES[hash % PREFECTURES.length]
+    const city = "模擬市"
+    const town = `${((hash >>> 8) % 9) + 1}丁目`
+    return { pref, city, town, address: `${pref}${city}${town}` }
+  },
+})
@@ -0,0 +1,44 @@
+import axios from "axios"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { createNominatimProvider } from "./nominatim"
+
+describe("createNominatimProvider", () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("asks for Japanese names when searching an address", async () => {
+    const get = vi.spyOn(axios, "get").mockResolvedValue({
+      data: [
+        {
+          lat: "35.6896",
+          lon: "139.6921",
+          place_rank: 30,
+          address: { province: "東京都", city: "新宿区", quarter: "西新宿二丁目", house_number: "8-1" },
+        },
+      ],
+    })
+
+    expect(await createNominatimProvider("https://nominatim.example/").geocode("東京都新宿区西新宿2-8-1")).toEqual({
+      lat: 35.6896,
+      lng: 139.6921,
+      level: 3,
+      pref: "東京都",
+      city: "新宿区",
+      town: "西新宿二丁目",
+      addr: "8-1",
+    })
+    expect(get).toHaveBeenCalledWith("https://nominatim.example/search", {
+      params: expect.objectContaining({ q: "東京都新宿区西新宿2-8-1", "accept-language": "ja" }),
+    })
+  })
+
+  it("asks for Japanese names when reverse geocoding a point", async () => {
+    const get = vi.spyOn(axios, "get").mockResolvedValue({ data: { error: "Unable to geocode" } })
+
+    expect(await createNominatimProvider("https://nominatim.example").reverseGeocode?.(0, 0)).toBeNull()
+    expect(get).toHaveBeenCalledWith("https://nominatim.example/reverse", {
+      params: expect.objectContaining({ "accept-language": "ja" }),
+    })
+  })
+})
@@ -0,0 +1,69 @@
+import axios from "axios"
+import type { GeocodingProvider } from "./types"
+
+export const DEFAULT_NOMINATIM_URL = "https://nominatim.openstreetmap.org"
+
+interface NominatimPlace {
+  lat: string
+  lon: string
+  place_rank: number
+  address?: Record<string, string | undefined>
+}
+
+const cityOf = (parts: Record<string, string | undefined>) => parts.city ?? parts.town ?? parts.village ?? ""
+const townOf = (parts: Record<string, string | undefined>) => parts.suburb ?? parts.quarter ?? parts.neighbourhood ?? ""
+
+// place_rank: 8 = 都道府県, 12-16 = 市区町村, 17 以上 = 町丁目以下
+const levelFromRank = (rank: number) => {
+  if (rank >= 17) return 3
+  if (rank >= 12) return 2
+  if (rank >= 8) return 1
+  return 0
+}
+
+const trimmedUrl = (baseUrl: string) => baseUrl.replace(/\/+$/, "")
+
+export const createNominatimProvider = (baseUrl: string = DEFAULT_NOMINATIM_URL): GeocodingProvider => ({
+  id: "nominatim",
+  namespace: `nominatim:${baseUrl}`,
+  load: () => Promise.resolve(),
+  geocode: async (address) => {
+    const response = await axios.get<NominatimPlace[]>(`${trimmedUrl(baseUrl)}/search`, {
+      params: {
+        q: address,
+        format: "jsonv2",
+        addressdetails: 1,
+        limit: 1,
+        countrycodes: "jp",
+        "accept-language": "ja",
+      },
+    })
+    const place = response.data[0]
+    if (!place) return null
+
+    const parts = place.address ?? {}
+    return {
+      lat: Number(place.lat),
+      lng: Number(place.lon),
+      level: levelFromRank(place.place_rank),
+      pref: parts.province ?? parts.state ?? "",
+      city: cityOf(parts),
+      town: townOf(parts),
+      addr: [parts.city_block, parts.house_number].filter((part) => part).join("-"),
+    }
+  },
+  reverseGeocode: async (lat, lng) => {
+    const response = await axios.get<NominatimPlace & { error?: string }>(`${trimmedUrl(baseUrl)}/reverse`, {
+      params: { lat, lon: lng, format: "jsonv2", addressdetails: 1, "accept-language": "ja" },
+    })
+    // Nominatim answers points without a match with 200 and an error field
+    if (response.data.error || !response.data.address) return null
+
+    const parts = response.data.address
+    const pref = parts.province ?? parts.state ?? ""
+    const city = cityOf(parts)
+    const town = townOf(parts)
+    const block = [parts.city_block, parts.house_number].filter((part) => part).join("-")
+    return { pref, city, town, address: `${pref}${city}${town}${block}` }
+  },
+})
@@ -0,0 +1,34 @@
+export interface GeocoderResult {
+  lat: number
+  lng: number
+  // 0: 判定不可, 1: 都道府県, 2: 市区町村, 3: 町丁目
+  level: number
+  pref: string
+  city: string
+  town: string
+  addr: string
+}
+
+export interface ReverseGeocoderResult {
+  pref: string
+  city: string
+  town: string
+  // Full address as the provider formats it
+  address: string
+}
+
+export type GeocodingMode = "forward" | "reverse"
+
+export type ProviderId = "geolonia" | "gsi" | "nominatim" | "mock"
+
+export interface GeocodingProvider {
+  id: ProviderId
+  // Identifies this provider's results in the geocode cache
+  namespace: string
+  // Resolves once the provider can accept requests (e.g. after its script has loaded)
+  load(): Promise<void>
+  // Resolves null when the address has no match; rejects on provider or network errors
+  geocode(address: string): Promise<GeocoderResult | null>
+  // Present only on providers that support coordinate → address lookups
+  reverseGeocode?(lat: number, lng: number): Promise<ReverseGeocoderResult | null>
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest"
+import { deriveColumns, encodeGeohash, meshCode, planeZoneFor, toPlaneRectangular } from "@/lib/grid-coordinates"
+
+describe("grid coordinates", () => {
+  const station = { lat: 35.681236, lng: 139.767125 }
+
+  it("computes JIS mesh codes down to the eighth subdivision", () => {
+    expect([1, 2, 3, 4, 5, 6].map((level) => meshCode(station.lat, station.lng, level))).toEqual([
+      "5339",
+      "533946",
+      "53394611",
+      "533946113",
+      "5339461132",
+      "53394611323",
+    ])
+  })
+
+  it("projects onto the plane rectangular zone picked from the prefecture", () => {
+    expect(toPlaneRectangular(36, 139 + 50 / 60, 9)).toEqual({ x: 0, y: 0 })
+    // One degree north of the origin along the central meridian, scaled by 0.9999
+    expect(toPlaneRectangular(37, 139 + 50 / 60, 9).x).toBeCloseTo(110957.208, 2)
+    expect(planeZoneFor("東京都", station.lat, station.lng)).toBe(9)
+    expect(planeZoneFor("東京都", 27.09, 142.19)).toBe(14)
+    expect(planeZoneFor("沖縄県", 24.34, 124.16)).toBe(16)
+  })
+
+  it("encodes geohashes and leaves the columns empty without a position", () => {
+    expect(encodeGeohash(57.64911, 10.40744, 11)).toBe("u4pruydqqvj")
+    expect(deriveColumns(null, "", { columns: ["mesh3", "plane"], planeZone: 0, geohashPrecision: 9 })).toEqual({
+      mesh_3rd: "",
+      jgd2011_zone: "",
+      jgd2011_x: "",
+      jgd2011_y: "",
+    })
+  })
+})
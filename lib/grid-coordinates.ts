@@ -0,0 +1,259 @@
+// Columns derived locally from each row's latitude and longitude
+
+export type DerivedColumnId = "mesh1" | "mesh2" | "mesh3" | "mesh4" | "mesh5" | "mesh6" | "plane" | "geohash" | "mercator"
+
+export const DERIVED_COLUMNS: { id: DerivedColumnId; label: string; columns: string[] }[] = [
+  { id: "mesh1", label: "第1次地域区画（約80km）", columns: ["mesh_1st"] },
+  { id: "mesh2", label: "第2次地域区画（約10km）", columns: ["mesh_2nd"] },
+  { id: "mesh3", label: "基準地域メッシュ（約1km）", columns: ["mesh_3rd"] },
+  { id: "mesh4", label: "2分の1地域メッシュ（約500m）", columns: ["mesh_half"] },
+  { id: "mesh5", label: "4分の1地域メッシュ（約250m）", columns: ["mesh_quarter"] },
+  { id: "mesh6", label: "8分の1地域メッシュ（約125m）", columns: ["mesh_eighth"] },
+  { id: "plane", label: "平面直角座標（JGD2011）", columns: ["jgd2011_zone", "jgd2011_x", "jgd2011_y"] },
+  { id: "geohash", label: "Geohash", columns: ["geohash"] },
+  { id: "mercator", label: "Web メルカトル（m）", columns: ["webmercator_x", "webmercator_y"] },
+]
+
+export interface DerivedColumnOptions {
+  columns: DerivedColumnId[]
+  // Plane rectangular zone 1–19, or 0 to pick it from the prefecture
+  planeZone: number
+  geohashPrecision: number
+}
+
+export const DEFAULT_DERIVED_COLUMN_OPTIONS: DerivedColumnOptions = { columns: [], planeZone: 0, geohashPrecision: 9 }
+
+// Guards Math.floor against float noise on a cell boundary
+const EPSILON = 1e-9
+
+/**
+ * JIS X 0410 regional mesh code. Levels 1–3 are the primary, secondary and
+ * standard meshes; 4–6 split the standard mesh into halves, quarters and eighths.
+ */
+export const meshCode = (lat: number, lng: number, level: number) => {
+  let latSec = lat * 3600
+  let lngSec = (lng - 100) * 3600
+  const take = (latSize: number, lngSize: number) => {
+    const row = Math.floor(latSec / latSize + EPSILON)
+    const col = Math.floor(lngSec / lngSize + EPSILON)
+    latSec -= row * latSize
+    lngSec -= col * lngSize
+    return [row, col]
+  }
+
+  const [p, u] = take(2400, 3600)
+  let code = `${String(p).padStart(2, "0")}${String(u).padStart(2, "0")}`
+  if (level >= 2) code += take(300, 450).join("")
+  if (level >= 3) code += take(30, 45).join("")
+  // Each subdivision numbers its quarters 1 (south-west), 2 (south-east), 3 (north-west), 4 (north-east)
+  for (let sub = 4, latSize = 15, lngSize = 22.5; sub <= level; sub++, latSize /= 2, lngSize /= 2) {
+    const [row, col] = take(latSize, lngSize)
+    code += String(row * 2 + col + 1)
+  }
+  return code
+}
+
+// Origins of the 19 plane rectangular zones, in degrees
+const PLANE_ORIGINS: [number, number][] = [
+  [33, 129.5],
+  [33, 131],
+  [36, 132 + 10 / 60],
+  [33, 133.5],
+  [36, 134 + 20 / 60],
+  [36, 136],
+  [36, 137 + 10 / 60],
+  [36, 138.5],
+  [36, 139 + 50 / 60],
+  [40, 140 + 50 / 60],
+  [44, 140.25],
+  [44, 142.25],
+  [44, 144.25],
+  [26, 142],
+  [26, 127.5],
+  [26, 124],
+  [26, 131],
+  [20, 136],
+  [26, 154],
+]
+
+export const PLANE_ZONES = PLANE_ORIGINS.map((_, i) => i + 1)
+
+// Zones each prefecture uses; where there are several, the nearest origin is taken
+const PREFECTURE_PLANE_ZONES: Record<string, number[]> = {
+  北海道: [11, 12, 13],
+  青森県: [10],
+  岩手県: [10],
+  宮城県: [10],
+  秋田県: [10],
+  山形県: [10],
+  福島県: [9],
+  茨城県: [9],
+  栃木県: [9],
+  群馬県: [9],
+  埼玉県: [9],
+  千葉県: [9],
+  東京都: [9, 14, 18, 19],
+  神奈川県: [9],
+  新潟県: [8],
+  富山県: [7],
+  石川県: [7],
+  福井県: [6],
+  山梨県: [8],
+  長野県: [8],
+  岐阜県: [7],
+  静岡県: [8],
+  愛知県: [7],
+  三重県: [6],
+  滋賀県: [6],
+  京都府: [6],
+  大阪府: [6],
+  兵庫県: [5],
+  奈良県: [6],
+  和歌山県: [6],
+  鳥取県: [5],
+  島根県: [3],
+  岡山県: [5],
+  広島県: [3],
+  山口県: [3],
+  徳島県: [4],
+  香川県: [4],
+  愛媛県: [4],
+  高知県: [4],
+  福岡県: [2],
+  佐賀県: [2],
+  長崎県: [1],
+  熊本県: [2],
+  大分県: [2],
+  宮崎県: [2],
+  鹿児島県: [1, 2],
+  沖縄県: [15, 16, 17],
+}
+
+/**
+ * The zone for a point in `pref`. The legal zone boundaries inside Hokkaido,
+ * Kagoshima and the Tokyo and Okinawa islands follow municipalities, so the
+ * nearest origin is an approximation there; an unknown prefecture falls back
+ * to the nearest origin of all zones.
+ */
+export const planeZoneFor = (pref: string, lat: number, lng: number) => {
+  const candidates = PREFECTURE_PLANE_ZONES[pref] ?? PLANE_ZONES
+  const distance = (zone: number) => {
+    const [originLat, originLng] = PLANE_ORIGINS[zone - 1]
+    return (lat - originLat) ** 2 + ((lng - originLng) * Math.cos((lat * Math.PI) / 180)) ** 2
+  }
+  return candidates.reduce((best, zone) => (distance(zone) < distance(best) ? zone : best))
+}
+
+// GRS80, which JGD2011 uses
+const SEMI_MAJOR_AXIS = 6378137
+const FLATTENING = 1 / 298.257222101
+const PLANE_SCALE = 0.9999
+
+const n = FLATTENING / (2 - FLATTENING)
+// Krüger series to the fifth order (the formulas the Geospatial Information Authority of Japan publishes)
+const ARC_COEFFICIENTS = [
+  1 + n ** 2 / 4 + n ** 4 / 64,
+  (-3 / 2) * (n - n ** 3 / 8 - n ** 5 / 64),
+  (15 / 16) * (n ** 2 - n ** 4 / 4),
+  (-35 / 48) * (n ** 3 - (5 / 16) * n ** 5),
+  (315 / 512) * n ** 4,
+  (-693 / 1280) * n ** 5,
+]
+const ALPHA = [
+  n / 2 - (2 / 3) * n ** 2 + (5 / 16) * n ** 3 + (41 / 180) * n ** 4 - (127 / 288) * n ** 5,
+  (13 / 48) * n ** 2 - (3 / 5) * n ** 3 + (557 / 1440) * n ** 4 + (281 / 630) * n ** 5,
+  (61 / 240) * n ** 3 - (103 / 140) * n ** 4 + (15061 / 26880) * n ** 5,
+  (49561 / 161280) * n ** 4 - (179 / 168) * n ** 5,
+  (34729 / 80640) * n ** 5,
+]
+const RECTIFYING_RADIUS = ((PLANE_SCALE * SEMI_MAJOR_AXIS) / (1 + n)) * ARC_COEFFICIENTS[0]
+
+const meridianArc = (phi: number) =>
+  ((PLANE_SCALE * SEMI_MAJOR_AXIS) / (1 + n)) *
+  ARC_COEFFICIENTS.reduce((sum, coefficient, j) => sum + coefficient * (j === 0 ? phi : Math.sin(2 * j * phi)), 0)
+
+/** JGD2011 plane rectangular coordinates in metres; x points north and y east */
+export const toPlaneRectangular = (lat: number, lng: number, zone: number) => {
+  const rad = Math.PI / 180
+  const [originLat, originLng] = PLANE_ORIGINS[zone - 1]
+  const phi = lat * rad
+  const lambda = (lng - originLng) * rad
+  const e = (2 * Math.sqrt(n)) / (1 + n)
+  const t = Math.sinh(Math.atanh(Math.sin(phi)) - e * Math.atanh(e * Math.sin(phi)))
+  const xi = Math.atan(t / Math.cos(lambda))
+  const eta = Math.atanh(Math.sin(lambda) / Math.sqrt(1 + t * t))
+  const x = ALPHA.reduce((sum, a, j) => sum + a * Math.sin(2 * (j + 1) * xi) * Math.cosh(2 * (j + 1) * eta), xi)
+  const y = ALPHA.reduce((sum, a, j) => sum + a * Math.cos(2 * (j + 1) * xi) * Math.sinh(2 * (j + 1) * eta), eta)
+  return { x: RECTIFYING_RADIUS * x - meridianArc(originLat * rad), y: RECTIFYING_RADIUS * y }
+}
+
+const GEOHASH_BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz"
+
+export const encodeGeohash = (lat: number, lng: number, precision: number) => {
+  const range = { lat: [-90, 90], lng: [-180, 180] }
+  let hash = ""
+  let bits = 0
+  let value = 0
+  // Bits alternate between longitude and latitude, longitude first
+  for (let even = true; hash.length < precision; even = !even) {
+    const [key, coordinate] = even ? (["lng", lng] as const) : (["lat", lat] as const)
+    const middle = (range[key][0] + range[key][1]) / 2
+    value <<= 1
+    if (coordinate >= middle) {
+      value |= 1
+      range[key][0] = middle
+    } else {
+      range[key][1] = middle
+    }
+    if (++bits === 5) {
+      hash += GEOHASH_BASE32[value]
+      bits = 0
+      value = 0
+    }
+  }
+  return hash
+}
+
+// EPSG:3857
+export const toWebMercator = (lat: number, lng: number) => {
+  const rad = Math.PI / 180
+  return { x: SEMI_MAJOR_AXIS * lng * rad, y: SEMI_MAJOR_AXIS * Math.log(Math.tan(Math.PI / 4 + (lat * rad) / 2)) }
+}
+
+// Millimetres are plenty for projected metres
+const toMillimetres = (metres: number) => Number(metres.toFixed(3))
+
+const MESH_LEVELS: Partial<Record<DerivedColumnId, number>> = { mesh1: 1, mesh2: 2, mesh3: 3, mesh4: 4, mesh5: 5, mesh6: 6 }
+
+/**
+ * The chosen derived columns for one point, all empty when the row has no
+ * position. `pref` picks the plane rectangular zone when it is automatic.
+ */
+export const deriveColumns = (
+  point: { lat: number; lng: number } | null,
+  pref: string,
+  options: DerivedColumnOptions
+): Record<string, string | number> => {
+  const values: Record<string, string | number> = {}
+  DERIVED_COLUMNS.filter(({ id }) => options.columns.includes(id)).forEach(({ id, columns }) => {
+    if (!point) {
+      columns.forEach((column) => (values[column] = ""))
+      return
+    }
+    const { lat, lng } = point
+    const level = MESH_LEVELS[id]
+    if (level) {
+      values[columns[0]] = meshCode(lat, lng, level)
+    } else if (id === "plane") {
+      const zone = options.planeZone || planeZoneFor(pref, lat, lng)
+      const { x, y } = toPlaneRectangular(lat, lng, zone)
+      Object.assign(values, { jgd2011_zone: zone, jgd2011_x: toMillimetres(x), jgd2011_y: toMillimetres(y) })
+    } else if (id === "geohash") {
+      values.geohash = encodeGeohash(lat, lng, options.geohashPrecision)
+    } else {
+      const { x, y } = toWebMercator(lat, lng)
+      Object.assign(values, { webmercator_x: toMillimetres(x), webmercator_y: toMillimetres(y) })
+    }
+  })
+  return values
+}
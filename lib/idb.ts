@@ -0,0 +1,73 @@
+const DB_NAME = "address-to-latlon"
+const DB_VERSION = 4
+
+export const GEOCODE_STORE = "geocodes"
+export const JOB_STORE = "jobs"
+export const JOB_RESULT_STORE = "job_results"
+export const OUTPUT_PRESET_STORE = "output_presets"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+/** Opens (and on first use, creates) the app's IndexedDB database */
+export const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = (event) => {
+        const db = request.result
+        // Job results were keyed by queue index alone before version 4; such a checkpoint cannot be resumed
+        if (event.oldVersion < 4 && db.objectStoreNames.contains(JOB_RESULT_STORE)) {
+          db.deleteObjectStore(JOB_RESULT_STORE)
+          if (db.objectStoreNames.contains(JOB_STORE)) request.transaction?.objectStore(JOB_STORE).clear()
+        }
+        if (!db.objectStoreNames.contains(GEOCODE_STORE)) {
+          db.createObjectStore(GEOCODE_STORE, { keyPath: "key" })
+        }
+        if (!db.objectStoreNames.contains(JOB_STORE)) {
+          db.createObjectStore(JOB_STORE, { keyPath: "id" })
+        }
+        if (!db.objectStoreNames.contains(JOB_RESULT_STORE)) {
+          db.createObjectStore(JOB_RESULT_STORE, { keyPath: ["pass", "index"] })
+        }
+        if (!db.objectStoreNames.contains(OUTPUT_PRESET_STORE)) {
+          db.createObjectStore(OUTPUT_PRESET_STORE, { keyPath: "name" })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error ?? new Error("IndexedDB を開けませんでした"))
+      }
+    })
+  }
+  return dbPromise
+}
+
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+/** Runs `fn` against a single object store and resolves with its request's result */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDatabase()
+  return requestToPromise(fn(db.transaction(storeName, mode).objectStore(storeName)))
+}
+
+/** Writes several records in one transaction */
+export const putAll = async (storeName: string, values: unknown[]) => {
+  const db = await openDatabase()
+  const transaction = db.transaction(storeName, "readwrite")
+  const store = transaction.objectStore(storeName)
+  values.forEach((value) => store.put(value))
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
@@ -0,0 +1,183 @@
+import "fake-indexeddb/auto"
+import { afterEach, describe, expect, it } from "vitest"
+import { EMPTY_ADDRESS_MAPPING, mappingFromColumns } from "@/lib/address-mapping"
+import type { GeocodingProvider } from "@/lib/geocoders"
+import {
+  createCheckpointedQueueRunner,
+  discardCheckpoint,
+  loadCheckpoint,
+  type CheckpointSettings,
+  type JobCheckpoint,
+} from "@/lib/job-checkpoint"
+import type { JobRunner } from "@/lib/job-runner"
+import { createAddressLookup, geocodeRows, type GeocodedRow, type Lookup } from "@/lib/pipeline"
+
+const file = new File(["住所\n東京都新宿区西新宿2-8-1\n"], "addresses.csv")
+
+const settings: CheckpointSettings = {
+  mode: "forward",
+  addressMapping: EMPTY_ADDRESS_MAPPING,
+  inputEncoding: "auto",
+  delimiter: ",",
+  sheetName: "",
+  headerRow: 1,
+  providerId: "gsi",
+  nominatimUrl: "",
+  minMatchLevel: 0,
+  normalizationRules: [],
+  fallback: true,
+  coordinateInput: "separate",
+  latColumn: "",
+  lngColumn: "",
+  latLonColumn: "",
+}
+
+// A runner whose lookups are recorded and which cancels itself once `stopAfter` lookups have run
+const createRunner = (saved: JobCheckpoint | null, stopAfter = Infinity) => {
+  const looked: string[] = []
+  let runner: JobRunner<unknown> | null = null
+  const runQueue = createCheckpointedQueueRunner({
+    file,
+    settings,
+    saved,
+    concurrency: 1,
+    requestsPerSecond: 0,
+    onProgress: () => undefined,
+    onRunner: (created) => {
+      runner = created
+    },
+  })
+  const lookup: Lookup<string> = async (key) => {
+    looked.push(key)
+    if (looked.length >= stopAfter) runner?.cancel()
+    return `${key}:result`
+  }
+  return { runQueue, lookup, looked }
+}
+
+describe("createCheckpointedQueueRunner", () => {
+  afterEach(() => discardCheckpoint())
+
+  it("resumes an interrupted queue without looking its results up again", async () => {
+    const first = createRunner(null, 1)
+    expect((await first.runQueue(["a", "b", "c"], first.lookup)).cancelled).toBe(true)
+
+    const saved = await loadCheckpoint()
+    expect(saved?.passes).toHaveLength(1)
+    const second = createRunner(saved ?? null)
+    const { lookups, cancelled } = await second.runQueue(["a", "b", "c"], second.lookup)
+
+    expect(cancelled).toBe(false)
+    expect(second.looked).toEqual(["b", "c"])
+    expect(lookups.get("a")).toBe("a:result")
+  })
+
+  it("does not restore results onto a different queue of the same length", async () => {
+    const first = createRunner(null, 2)
+    await first.runQueue(["a", "b", "c"], first.lookup)
+
+    const second = createRunner((await loadCheckpoint()) ?? null)
+    const { lookups } = await second.runQueue(["c", "b", "a"], second.lookup)
+
+    expect(second.looked).toEqual(["c", "b", "a"])
+    expect(lookups.get("a")).toBe("a:result")
+  })
+
+  it("keeps finished passes when a fallback pass is interrupted", async () => {
+    const first = createRunner(null, 3)
+    expect((await first.runQueue(["a", "b"], first.lookup)).cancelled).toBe(false)
+    expect((await first.runQueue(["x", "y"], first.lookup, undefined, 1)).cancelled).toBe(true)
+
+    const saved = await loadCheckpoint()
+    expect(saved?.passes.map(({ level, total }) => ({ level, total }))).toEqual([
+      { level: 0, total: 2 },
+      { level: 1, total: 2 },
+    ])
+    const second = createRunner(saved ?? null)
+    await second.runQueue(["a", "b"], second.lookup)
+    const { lookups } = await second.runQueue(["x", "y"], second.lookup, undefined, 1)
+
+    expect(second.looked).toEqual(["y"])
+    expect(lookups.get("x")).toBe("x:result")
+  })
+
+  it("looks a pass up afresh when it ran at another fallback level", async () => {
+    const first = createRunner(null, 3)
+    await first.runQueue(["a", "b"], first.lookup)
+    await first.runQueue(["x", "y"], first.lookup, undefined, 1)
+
+    const second = createRunner((await loadCheckpoint()) ?? null)
+    await second.runQueue(["a", "b"], second.lookup)
+    await second.runQueue(["x", "y"], second.lookup, undefined, 2)
+
+    expect(second.looked).toEqual(["x", "y"])
+    expect((await loadCheckpoint())?.passes.map(({ level }) => level)).toEqual([0, 2])
+  })
+
+  it("resumes a job interrupted during a fallback pass with every row on its own address", async () => {
+    const calls: string[] = []
+    let runner: JobRunner<unknown> | null = null
+    const provider: GeocodingProvider = {
+      id: "mock",
+      namespace: "stub",
+      load: () => Promise.resolve(),
+      geocode: async (address) => {
+        calls.push(address)
+        // The first job stops after the first fallback lookup
+        if (calls.length === 4) runner?.cancel()
+        if (address === "東京都新宿区西新宿2-8-1" || address === "東京都新宿区西新宿") {
+          return { lat: 35.69, lng: 139.69, level: 3, pref: "東京都", city: "新宿区", town: "西新宿", addr: "" }
+        }
+        if (address === "東京都渋谷区道玄坂") {
+          return { lat: 35.66, lng: 139.7, level: 3, pref: "東京都", city: "渋谷区", town: "道玄坂", addr: "" }
+        }
+        return null
+      },
+      reverseGeocode: async () => null,
+    }
+    const rows: GeocodedRow[] = [
+      { 住所: "東京都新宿区西新宿2-8-3" },
+      { 住所: "東京都新宿区西新宿2-8-1" },
+      { 住所: "東京都渋谷区道玄坂1-2-3" },
+    ]
+    const forward = {
+      addressMapping: mappingFromColumns(["住所"]),
+      normalizationRules: [],
+      minMatchLevel: 0,
+      fallback: true,
+    }
+    const run = (saved: JobCheckpoint | null) =>
+      geocodeRows(
+        rows,
+        forward,
+        createAddressLookup(provider),
+        createCheckpointedQueueRunner({
+          file,
+          settings,
+          saved,
+          concurrency: 1,
+          requestsPerSecond: 0,
+          onProgress: () => undefined,
+          onRunner: (created) => {
+            runner = created
+          },
+        })
+      )
+
+    expect((await run(null)).cancelled).toBe(true)
+    const saved = await loadCheckpoint()
+    expect(saved?.passes.map(({ level }) => level)).toEqual([0, 2])
+
+    calls.length = 0
+    const { geocodedRows, cancelled } = await run(saved ?? null)
+
+    expect(cancelled).toBe(false)
+    expect(calls).toEqual(["東京都渋谷区道玄坂"])
+    expect(geocodedRows.map((row) => row.fallback_level)).toEqual([2, 0, 2])
+    expect(geocodedRows.map((row) => row.fallback_address)).toEqual([
+      "東京都新宿区西新宿",
+      undefined,
+      "東京都渋谷区道玄坂",
+    ])
+  })
+})
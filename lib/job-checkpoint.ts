@@ -0,0 +1,248 @@
+import type { AddressMapping } from "@/lib/address-mapping"
+import type { NormalizationRuleId } from "@/lib/address-normalizer"
+import type { GeocodingMode, ProviderId } from "@/lib/geocoders"
+import { JOB_RESULT_STORE, JOB_STORE, putAll, withStore } from "@/lib/idb"
+import { createJobRunner, type JobProgress, type JobRunner } from "@/lib/job-runner"
+import { readCachedLookups, type Lookup, type LookupQueueRunner } from "@/lib/pipeline"
+
+export interface CheckpointSettings {
+  mode: GeocodingMode
+  addressMapping: AddressMapping
+  inputEncoding: string
+  delimiter: string
+  sheetName: string
+  headerRow: number
+  providerId: ProviderId
+  nominatimUrl: string
+  minMatchLevel: number
+  normalizationRules: NormalizationRuleId[]
+  // Whether the job runs fallback passes; the passes themselves are told apart by `JobCheckpoint.passes`
+  fallback: boolean
+  coordinateInput: "separate" | "combined"
+  latColumn: string
+  lngColumn: string
+  latLonColumn: string
+}
+
+/**
+ * Settings that decide which lookups the job's queues contain. A checkpoint can
+ * only be resumed when these are unchanged; the match level is applied
+ * afterwards and may differ.
+ */
+export const queueSettingsKey = ({ minMatchLevel: _minMatchLevel, ...settings }: CheckpointSettings) =>
+  JSON.stringify(settings)
+
+/** One queue of a job: the first lookups, then one per fallback step that had addresses to retry */
+export interface CheckpointPass {
+  // 0 for the first lookups, otherwise the fallback level
+  level: number
+  // Hash of the queue's keys, so that results are only restored onto the very same queue
+  queueHash: string
+  total: number
+}
+
+/**
+ * The one unfinished job kept across reloads. Results are stored per pass
+ * and queue index in a separate store so each completed address is a small
+ * write instead of rewriting the whole job.
+ */
+export interface JobCheckpoint {
+  id: "current"
+  fingerprint: string
+  fileName: string
+  settings: CheckpointSettings
+  startedAt: number
+  // The queues started so far, in order
+  passes: CheckpointPass[]
+}
+
+interface CheckpointResult<T> {
+  pass: number
+  index: number
+  value: T
+}
+
+const FINGERPRINT_BYTES = 1024 * 1024
+const FLUSH_SIZE = 50
+const FLUSH_INTERVAL_MS = 1000
+
+/** Identifies a source file by its size and a hash of its first megabyte */
+export const fingerprintFile = async (file: File) => {
+  const head = await file.slice(0, FINGERPRINT_BYTES).arrayBuffer()
+  const digest = await crypto.subtle.digest("SHA-256", head)
+  const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+  return `${file.size}-${hex}`
+}
+
+const hashQueue = async (queue: string[]) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(queue.join("\n")))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+// All results of `pass`, or of `pass` and every later one with `andLater`
+const passRange = (pass: number, andLater = false) =>
+  andLater ? IDBKeyRange.lowerBound([pass]) : IDBKeyRange.bound([pass], [pass, Infinity])
+
+export const loadCheckpoint = () =>
+  withStore<JobCheckpoint | undefined>(JOB_STORE, "readonly", (store) => store.get("current"))
+
+export const loadCheckpointResults = async <T>(pass: number) => {
+  const entries = await withStore<CheckpointResult<T>[]>(JOB_RESULT_STORE, "readonly", (store) =>
+    store.getAll(passRange(pass))
+  )
+  return new Map(entries.map((entry) => [entry.index, entry.value]))
+}
+
+export const discardCheckpoint = async () => {
+  await withStore(JOB_RESULT_STORE, "readwrite", (store) => store.clear())
+  await withStore(JOB_STORE, "readwrite", (store) => store.delete("current"))
+}
+
+/**
+ * Records the job as it stands before `pass` starts. Stored results of that
+ * pass and the later ones are dropped unless the pass resumes; results of
+ * any other job are dropped when the first pass starts afresh.
+ */
+export const saveCheckpoint = async (checkpoint: JobCheckpoint, pass: number, resume: boolean) => {
+  if (!resume) {
+    await withStore(JOB_RESULT_STORE, "readwrite", (store) =>
+      pass === 0 ? store.clear() : store.delete(passRange(pass, true))
+    )
+  }
+  await withStore(JOB_STORE, "readwrite", (store) => store.put(checkpoint))
+}
+
+/**
+ * Buffers completed results of one pass and writes them in batches, either
+ * every FLUSH_SIZE results or FLUSH_INTERVAL_MS after the first buffered one.
+ */
+export const createCheckpointWriter = <T>(pass: number) => {
+  let buffer: CheckpointResult<T>[] = []
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let pending: Promise<void> = Promise.resolve()
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer)
+      timer = null
+    }
+    if (buffer.length > 0) {
+      const batch = buffer
+      buffer = []
+      // Checkpointing is best effort; a failed write only means more rework after a crash
+      pending = pending.then(() => putAll(JOB_RESULT_STORE, batch)).catch(() => undefined)
+    }
+    return pending
+  }
+
+  return {
+    add: (index: number, value: T) => {
+      buffer.push({ pass, index, value })
+      if (buffer.length >= FLUSH_SIZE) {
+        flush()
+      } else if (!timer) {
+        timer = setTimeout(flush, FLUSH_INTERVAL_MS)
+      }
+    },
+    flush,
+  }
+}
+
+export interface CheckpointedQueueOptions {
+  file: File
+  settings: CheckpointSettings
+  // The stored checkpoint to resume, if the user chose to; it is ignored unless it matches the new queue
+  saved: JobCheckpoint | null
+  concurrency: number
+  requestsPerSecond: number
+  onProgress: (progress: JobProgress) => void
+  // Receives the job runner once it exists, for pausing and cancelling
+  onRunner: (runner: JobRunner<unknown>) => void
+}
+
+/**
+ * Queue runner that checkpoints each result and resumes an interrupted job
+ * for the same file. Every call is one pass of the job, numbered in call
+ * order; a pass is restored only when the same pass level ran the very same
+ * queue before. The checkpoint outlives the passes, so whoever runs the job
+ * discards it once the last pass has ended.
+ */
+export const createCheckpointedQueueRunner = ({
+  file,
+  settings,
+  saved,
+  concurrency,
+  requestsPerSecond,
+  onProgress,
+  onRunner,
+}: CheckpointedQueueOptions): LookupQueueRunner => {
+  let pass = 0
+  let checkpoint: JobCheckpoint | null = null
+
+  return async <T>(queue: string[], lookup: Lookup<T>, onLookup?: (key: string, result: T) => void, level = 0) => {
+    const current = pass++
+    // Resume from the checkpoint only if it describes the same file and provider
+    if (!checkpoint) {
+      const fingerprint = await fingerprintFile(file)
+      const sameJob =
+        saved !== null &&
+        saved.fingerprint === fingerprint &&
+        queueSettingsKey(saved.settings) === queueSettingsKey(settings)
+      checkpoint = sameJob
+        ? { ...saved, settings }
+        : { id: "current", fingerprint, fileName: file.name, settings, startedAt: Date.now(), passes: [] }
+    }
+    const queueHash = await hashQueue(queue)
+    const previous = checkpoint.passes[current]
+    const resume =
+      previous !== undefined &&
+      previous.level === level &&
+      previous.queueHash === queueHash &&
+      previous.total === queue.length
+    // Later passes depend on this one's results, so whatever was stored for them is stale unless this pass resumes
+    const passes = resume
+      ? checkpoint.passes
+      : [...checkpoint.passes.slice(0, current), { level, queueHash, total: queue.length }]
+    checkpoint = { ...checkpoint, passes }
+    const restored = resume
+      ? await loadCheckpointResults<T>(current).catch(() => new Map<number, T>())
+      : new Map<number, T>()
+    await saveCheckpoint(checkpoint, current, resume).catch(() => undefined)
+
+    // Results the cache already holds are settled here instead of waiting for a rate-limit slot
+    const pending = queue.map((_, i) => i).filter((i) => !restored.has(i))
+    const hits = await readCachedLookups(pending.map((i) => queue[i]), lookup)
+    const settled = new Map(restored)
+    hits.forEach((hit, j) => {
+      if (hit !== undefined) settled.set(pending[j], hit)
+    })
+    settled.forEach((result, i) => onLookup?.(queue[i], result))
+    const remaining = pending.filter((i) => !settled.has(i))
+    const writer = createCheckpointWriter<T>(current)
+    const runner = createJobRunner(
+      remaining,
+      async (queueIndex) => {
+        const result = await lookup(queue[queueIndex])
+        writer.add(queueIndex, result)
+        onLookup?.(queue[queueIndex], result)
+        return result
+      },
+      {
+        concurrency,
+        requestsPerSecond,
+        onProgress: (p) => onProgress({ ...p, processed: p.processed + settled.size, total: queue.length }),
+      }
+    )
+    onRunner(runner)
+
+    const job = await runner.start()
+    await writer.flush()
+
+    const lookups = new Map<string, T>()
+    settled.forEach((result, i) => lookups.set(queue[i], result))
+    remaining.forEach((queueIndex, i) => {
+      if (job.completed[i]) lookups.set(queue[queueIndex], job.results[i] as T)
+    })
+    return { lookups, cancelled: job.cancelled }
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest"
+import { createJobRunner } from "@/lib/job-runner"
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+describe("createJobRunner", () => {
+  it("runs every item with at most `concurrency` tasks at a time", async () => {
+    let running = 0
+    let peak = 0
+    const runner = createJobRunner(
+      [1, 2, 3, 4, 5],
+      async (item) => {
+        running++
+        peak = Math.max(peak, running)
+        await sleep(5)
+        running--
+        return item * 2
+      },
+      { concurrency: 2, requestsPerSecond: 0 }
+    )
+
+    const { results, completed, cancelled } = await runner.start()
+
+    expect(results).toEqual([2, 4, 6, 8, 10])
+    expect(completed.every(Boolean)).toBe(true)
+    expect(cancelled).toBe(false)
+    expect(peak).toBe(2)
+  })
+
+  it("lets running tasks finish but starts no new one while paused", async () => {
+    const calls: number[] = []
+    const progress: number[] = []
+    const runner = createJobRunner(
+      [0, 1, 2],
+      async (item) => {
+        calls.push(item)
+        await sleep(10)
+      },
+      { concurrency: 1, requestsPerSecond: 0, onProgress: (p) => progress.push(p.processed) }
+    )
+
+    const job = runner.start()
+    await sleep(2)
+    runner.pause()
+    await sleep(40)
+    expect(calls).toEqual([0])
+    expect(progress.at(-1)).toBe(1)
+
+    runner.resume()
+    const { completed, cancelled } = await job
+    expect(calls).toEqual([0, 1, 2])
+    expect(completed).toEqual([true, true, true])
+    expect(cancelled).toBe(false)
+    expect(runner.getState()).toBe("done")
+  })
+
+  it("holds back a task whose rate-limit wait ends while paused", async () => {
+    const calls: number[] = []
+    const runner = createJobRunner([0, 1, 2], async (item) => calls.push(item), {
+      concurrency: 1,
+      requestsPerSecond: 10,
+    })
+
+    const job = runner.start()
+    // The second task is now waiting for its slot 100 ms after the first
+    await sleep(20)
+    runner.pause()
+    await sleep(200)
+    expect(calls).toEqual([0])
+    expect(runner.getState()).toBe("paused")
+
+    runner.resume()
+    await job
+    expect(calls).toEqual([0, 1, 2])
+  })
+
+  it("resolves with the finished tasks when cancelled", async () => {
+    const runner = createJobRunner([0, 1, 2, 3], async (item) => item, { concurrency: 1, requestsPerSecond: 20 })
+
+    const job = runner.start()
+    await sleep(10)
+    runner.pause()
+    runner.cancel()
+    const { completed, cancelled } = await job
+
+    expect(cancelled).toBe(true)
+    expect(completed).toEqual([true, false, false, false])
+    expect(runner.getState()).toBe("cancelled")
+  })
+})
@@ -0,0 +1,148 @@
+export interface JobProgress {
+  processed: number
+  total: number
+  // Rows per second, measured over the time the job was not paused
+  rate: number
+  // Estimated remaining time in milliseconds, null until the rate is known
+  etaMs: number | null
+}
+
+export interface JobRunnerOptions {
+  concurrency: number
+  // Upper bound on task starts per second; 0 disables the limit
+  requestsPerSecond: number
+  onProgress?: (progress: JobProgress) => void
+}
+
+export type JobState = "idle" | "running" | "paused" | "cancelled" | "done"
+
+export interface JobResult<R> {
+  // Sparse: indexes that were never processed stay undefined
+  results: (R | undefined)[]
+  completed: boolean[]
+  cancelled: boolean
+}
+
+export interface JobRunner<R> {
+  start(): Promise<JobResult<R>>
+  pause(): void
+  resume(): void
+  cancel(): void
+  getState(): JobState
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Runs `task` over `items` with bounded concurrency and a start-rate limit.
+ * Pausing stops new tasks from starting; cancelling additionally makes
+ * `start()` resolve with whatever finished so far once in-flight tasks settle.
+ */
+export const createJobRunner = <T, R>(
+  items: T[],
+  task: (item: T, index: number) => Promise<R>,
+  { concurrency, requestsPerSecond, onProgress }: JobRunnerOptions
+): JobRunner<R> => {
+  const results: (R | undefined)[] = new Array(items.length)
+  const completed: boolean[] = new Array(items.length).fill(false)
+  const interval = requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0
+
+  let state: JobState = "idle"
+  let cursor = 0
+  let processed = 0
+  let nextSlot = 0
+  let activeMs = 0
+  let activeSince = 0
+  let resumeWaiters: (() => void)[] = []
+
+  const isCancelled = () => state === "cancelled"
+
+  const activeElapsed = () => activeMs + (state === "running" ? Date.now() - activeSince : 0)
+
+  const reportProgress = () => {
+    if (!onProgress) return
+    const elapsed = activeElapsed()
+    const rate = elapsed > 0 ? (processed / elapsed) * 1000 : 0
+    onProgress({
+      processed,
+      total: items.length,
+      rate,
+      etaMs: rate > 0 ? ((items.length - processed) / rate) * 1000 : null,
+    })
+  }
+
+  const waitWhilePaused = async () => {
+    while (state === "paused") {
+      await new Promise<void>((resolve) => resumeWaiters.push(resolve))
+    }
+  }
+
+  // Reserves the next start slot so that concurrent workers share one rate limit
+  const waitForSlot = async () => {
+    if (interval === 0) return
+    const now = Date.now()
+    const slot = Math.max(now, nextSlot)
+    nextSlot = slot + interval
+    if (slot > now) await sleep(slot - now)
+  }
+
+  const worker = async () => {
+    while (true) {
+      await waitWhilePaused()
+      if (isCancelled() || cursor >= items.length) return
+      const index = cursor++
+      await waitForSlot()
+      // A pause that came in while waiting for the slot holds the request back; resuming takes a fresh slot
+      while (state === "paused") {
+        await waitWhilePaused()
+        if (isCancelled()) return
+        await waitForSlot()
+      }
+      if (isCancelled()) return
+      results[index] = await task(items[index], index)
+      completed[index] = true
+      processed++
+      reportProgress()
+    }
+  }
+
+  const releaseWaiters = () => {
+    const waiters = resumeWaiters
+    resumeWaiters = []
+    waiters.forEach((resolve) => resolve())
+  }
+
+  return {
+    start: async () => {
+      state = "running"
+      activeSince = Date.now()
+      reportProgress()
+      const workerCount = Math.max(1, Math.min(concurrency, items.length))
+      await Promise.all(Array.from({ length: workerCount }, worker))
+      // Read through a closure: TypeScript would otherwise narrow `state` to "running" here
+      const cancelled = isCancelled()
+      if (!cancelled) state = "done"
+      return { results, completed, cancelled }
+    },
+    pause: () => {
+      if (state !== "running") return
+      activeMs += Date.now() - activeSince
+      state = "paused"
+      reportProgress()
+    },
+    resume: () => {
+      if (state !== "paused") return
+      state = "running"
+      activeSince = Date.now()
+      nextSlot = 0
+      releaseWaiters()
+    },
+    cancel: () => {
+      if (state === "running") activeMs += Date.now() - activeSince
+      if (state !== "running" && state !== "paused") return
+      state = "cancelled"
+      releaseWaiters()
+    },
+    getState: () => state,
+  }
+}
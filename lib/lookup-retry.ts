@@ -0,0 +1,86 @@
+// "network" and "timeout" are usually transient and retried; "error" is anything else the provider raised
+export type LookupErrorKind = "network" | "timeout" | "error"
+
+/** Why a lookup produced no answer, as opposed to the provider finding no match */
+export interface LookupFailure {
+  kind: LookupErrorKind
+  message: string
+  attempts: number
+}
+
+export interface RetryOptions {
+  // Further attempts after the first, for transient failures only
+  retries: number
+  // Wait before the first retry; every later retry waits twice as long as the one before
+  retryDelayMs: number
+  // Time limit of one attempt; 0 disables it
+  timeoutMs: number
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = { retries: 2, retryDelayMs: 1000, timeoutMs: 30000 }
+
+const TRANSIENT_KINDS: LookupErrorKind[] = ["network", "timeout"]
+
+class LookupTimeoutError extends Error {}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number) =>
+  timeoutMs > 0
+    ? new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(
+          () => reject(new LookupTimeoutError(`${timeoutMs / 1000} 秒以内に応答がありませんでした`)),
+          timeoutMs
+        )
+        promise.then(
+          (value) => {
+            clearTimeout(timer)
+            resolve(value)
+          },
+          (err: unknown) => {
+            clearTimeout(timer)
+            reject(err)
+          }
+        )
+      })
+    : promise
+
+/**
+ * Sorts a provider error into a failure kind. Axios errors are recognised by
+ * their shape so that this module does not depend on axios.
+ */
+export const classifyLookupError = (err: unknown): LookupErrorKind => {
+  if (err instanceof LookupTimeoutError) return "timeout"
+  const { code, isAxiosError, response } = (err ?? {}) as {
+    code?: string
+    isAxiosError?: boolean
+    response?: { status?: number }
+  }
+  if (code === "ECONNABORTED" || code === "ETIMEDOUT") return "timeout"
+  if (isAxiosError) {
+    // No response at all, rate limiting and server errors may all pass; other HTTP errors will not
+    const status = response?.status
+    return status === undefined || status === 429 || status >= 500 ? "network" : "error"
+  }
+  // fetch reports a connection that could not be made as a TypeError
+  if (err instanceof TypeError && /fetch|network/i.test(err.message)) return "network"
+  return "error"
+}
+
+/** Runs `fetch` with a time limit, retrying transient failures with exponential backoff */
+export const withRetry = async <T>(
+  fetch: () => Promise<T>,
+  { retries, retryDelayMs, timeoutMs }: RetryOptions
+): Promise<{ value: T; failure?: undefined } | { failure: LookupFailure }> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { value: await withTimeout(fetch(), timeoutMs) }
+    } catch (err) {
+      const kind = classifyLookupError(err)
+      if (!TRANSIENT_KINDS.includes(kind) || attempt > retries) {
+        return { failure: { kind, message: err instanceof Error ? err.message : String(err), attempts: attempt } }
+      }
+      await sleep(retryDelayMs * 2 ** (attempt - 1))
+    }
+  }
+}
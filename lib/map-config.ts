@@ -0,0 +1,19 @@
+/**
+ * Raster tile source for the result map. Set NEXT_PUBLIC_MAP_TILE_URL at build
+ * time to point at a local tile server, or to "none" for a blank background
+ * that needs no network access. Leaving it unset uses the GSI standard map.
+ */
+const configuredTileUrl = process.env.NEXT_PUBLIC_MAP_TILE_URL?.trim()
+
+export const MAP_TILE_URL =
+  configuredTileUrl === "none" ? null : configuredTileUrl || "https://cyberjapandata.gsi.go.jp/xyz/std/{z}/{x}/{y}.png"
+
+export const MAP_TILE_ATTRIBUTION =
+  process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION ??
+  (configuredTileUrl ? "" : '<a href="https://maps.gsi.go.jp/development/ichiran.html" target="_blank">地理院タイル</a>')
+
+export const MAP_MAX_ZOOM = Number(process.env.NEXT_PUBLIC_MAP_MAX_ZOOM) || 18
+
+// Whole of Japan, used before any result has coordinates
+export const MAP_INITIAL_CENTER: [number, number] = [36.5, 137.5]
+export const MAP_INITIAL_ZOOM = 5
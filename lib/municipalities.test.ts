@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest"
+import { municipalityCode, municipalityName, withCheckDigit } from "@/lib/municipalities"
+
+describe("municipality codes", () => {
+  it("resolves names to five-digit codes, down to the ward of a designated city", () => {
+    expect(municipalityCode("東京都", "新宿区")).toBe("13104")
+    expect(municipalityCode("北海道", "札幌市中央区")).toBe("01101")
+    expect(municipalityCode("北海道", "札幌市")).toBe("01100")
+    expect(municipalityCode("静岡県", "浜松市浜名区")).toBe("22139")
+    // With or without the district, in either spelling of ケ
+    expect(municipalityCode("東京都", "西多摩郡奥多摩町")).toBe("13308")
+    expect(municipalityCode("千葉県", "鎌ヶ谷市")).toBe("12224")
+    expect(municipalityCode("奈良県", "大和郡山市")).toBe("29203")
+    expect(municipalityCode("北海道", "古宇郡泊村")).toBe("01403")
+    expect(municipalityCode("東京都", "札幌市中央区")).toBe("")
+    expect(municipalityName("1101")).toBe("札幌市中央区")
+  })
+
+  it("appends the check digit of the six-digit code", () => {
+    expect(["13101", "01100", "13104", "01101"].map(withCheckDigit)).toEqual(["131016", "011002", "131041", "011011"])
+  })
+})
@@ -0,0 +1,365 @@
+import { prefectureCode, prefectureFromCode } from "@/lib/prefectures"
+
+// 全国地方公共団体コードの上5桁（検査数字なし）と名称。都道府県コード順に、下3桁と名称を空白区切りで並べる。
+// 政令指定都市の区は市の直後に区名だけで載せ、読み込み時に「札幌市中央区」の形にする（2024年1月1日時点）
+const MUNICIPALITY_TABLE = [
+  // 北海道
+  "100札幌市 101中央区 102北区 103東区 104白石区 105豊平区 106南区 107西区 108厚別区 109手稲区 110清田区 " +
+    "202函館市 203小樽市 204旭川市 205室蘭市 206釧路市 207帯広市 208北見市 209夕張市 210岩見沢市 211網走市 " +
+    "212留萌市 213苫小牧市 214稚内市 215美唄市 216芦別市 217江別市 218赤平市 219紋別市 220士別市 221名寄市 " +
+    "222三笠市 223根室市 224千歳市 225滝川市 226砂川市 227歌志内市 228深川市 229富良野市 230登別市 231恵庭市 " +
+    "233伊達市 234北広島市 235石狩市 236北斗市 303当別町 304新篠津村 331松前町 332福島町 333知内町 334木古内町 " +
+    "337七飯町 343鹿部町 345森町 346八雲町 347長万部町 361江差町 362上ノ国町 363厚沢部町 364乙部町 367奥尻町 " +
+    "370今金町 371せたな町 391島牧村 392寿都町 393黒松内町 394蘭越町 395ニセコ町 396真狩村 397留寿都村 " +
+    "398喜茂別町 399京極町 400倶知安町 401共和町 402岩内町 403泊村 404神恵内村 405積丹町 406古平町 407仁木町 " +
+    "408余市町 409赤井川村 423南幌町 424奈井江町 425上砂川町 427由仁町 428長沼町 429栗山町 430月形町 431浦臼町 " +
+    "432新十津川町 433妹背牛町 434秩父別町 436雨竜町 437北竜町 438沼田町 452鷹栖町 453東神楽町 454当麻町 " +
+    "455比布町 456愛別町 457上川町 458東川町 459美瑛町 460上富良野町 461中富良野町 462南富良野町 463占冠村 " +
+    "464和寒町 465剣淵町 468下川町 469美深町 470音威子府村 471中川町 472幌加内町 481増毛町 482小平町 483苫前町 " +
+    "484羽幌町 485初山別村 486遠別町 487天塩町 511猿払村 512浜頓別町 513中頓別町 514枝幸町 516豊富町 517礼文町 " +
+    "518利尻町 519利尻富士町 520幌延町 543美幌町 544津別町 545斜里町 546清里町 547小清水町 549訓子府町 550置戸町 " +
+    "552佐呂間町 555遠軽町 559湧別町 560滝上町 561興部町 562西興部村 563雄武町 564大空町 571豊浦町 575壮瞥町 " +
+    "578白老町 581厚真町 584洞爺湖町 585安平町 586むかわ町 601日高町 602平取町 604新冠町 607浦河町 608様似町 " +
+    "609えりも町 610新ひだか町 631音更町 632士幌町 633上士幌町 634鹿追町 635新得町 636清水町 637芽室町 " +
+    "638中札内村 639更別村 641大樹町 642広尾町 643幕別町 644池田町 645豊頃町 646本別町 647足寄町 648陸別町 " +
+    "649浦幌町 661釧路町 662厚岸町 663浜中町 664標茶町 665弟子屈町 667鶴居村 668白糠町 691別海町 692中標津町 " +
+    "693標津町 694羅臼町 695色丹村 696国後郡泊村 697留夜別村 698留別村 699紗那村 700蘂取村",
+  // 青森県
+  "201青森市 202弘前市 203八戸市 204黒石市 205五所川原市 206十和田市 207三沢市 208むつ市 209つがる市 210平川市 " +
+    "301平内町 303今別町 304蓬田村 307外ヶ浜町 321鰺ヶ沢町 323深浦町 343西目屋村 361藤崎町 362大鰐町 367田舎館村 " +
+    "381板柳町 384鶴田町 387中泊町 401野辺地町 402七戸町 405六戸町 406横浜町 408東北町 411六ヶ所村 " +
+    "412おいらせ町 423大間町 424東通村 425風間浦村 426佐井村 441三戸町 442五戸町 443田子町 445南部町 446階上町 " +
+    "450新郷村",
+  // 岩手県
+  "201盛岡市 202宮古市 203大船渡市 205花巻市 206北上市 207久慈市 208遠野市 209一関市 210陸前高田市 211釜石市 " +
+    "213二戸市 214八幡平市 215奥州市 216滝沢市 301雫石町 302葛巻町 303岩手町 321紫波町 322矢巾町 366西和賀町 " +
+    "381金ケ崎町 402平泉町 441住田町 461大槌町 482山田町 483岩泉町 484田野畑村 485普代村 501軽米町 503野田村 " +
+    "506九戸村 507洋野町 524一戸町",
+  // 宮城県
+  "100仙台市 101青葉区 102宮城野区 103若林区 104太白区 105泉区 202石巻市 203塩竈市 205気仙沼市 206白石市 " +
+    "207名取市 208角田市 209多賀城市 211岩沼市 212登米市 213栗原市 214東松島市 215大崎市 216富谷市 301蔵王町 " +
+    "302七ヶ宿町 321大河原町 322村田町 323柴田町 324川崎町 341丸森町 361亘理町 362山元町 401松島町 404七ヶ浜町 " +
+    "406利府町 421大和町 422大郷町 424大衡村 444色麻町 445加美町 501涌谷町 505美里町 581女川町 606南三陸町",
+  // 秋田県
+  "201秋田市 202能代市 203横手市 204大館市 206男鹿市 207湯沢市 209鹿角市 210由利本荘市 211潟上市 212大仙市 " +
+    "213北秋田市 214にかほ市 215仙北市 303小坂町 327上小阿仁村 346藤里町 348三種町 349八峰町 361五城目町 " +
+    "363八郎潟町 366井川町 368大潟村 434美郷町 463羽後町 464東成瀬村",
+  // 山形県
+  "201山形市 202米沢市 203鶴岡市 204酒田市 205新庄市 206寒河江市 207上山市 208村山市 209長井市 210天童市 " +
+    "211東根市 212尾花沢市 213南陽市 301山辺町 302中山町 321河北町 322西川町 323朝日町 324大江町 341大石田町 " +
+    "361金山町 362最上町 363舟形町 364真室川町 365大蔵村 366鮭川村 367戸沢村 381高畠町 382川西町 401小国町 " +
+    "402白鷹町 403飯豊町 426三川町 428庄内町 461遊佐町",
+  // 福島県
+  "201福島市 202会津若松市 203郡山市 204いわき市 205白河市 207須賀川市 208喜多方市 209相馬市 210二本松市 " +
+    "211田村市 212南相馬市 213伊達市 214本宮市 301桑折町 303国見町 308川俣町 322大玉村 342鏡石町 344天栄村 " +
+    "362下郷町 364檜枝岐村 367只見町 368南会津町 402北塩原村 405西会津町 407磐梯町 408猪苗代町 421会津坂下町 " +
+    "422湯川村 423柳津町 444三島町 445金山町 446昭和村 447会津美里町 461西郷村 464泉崎村 465中島村 466矢吹町 " +
+    "481棚倉町 482矢祭町 483塙町 484鮫川村 501石川町 502玉川村 503平田村 504浅川町 505古殿町 521三春町 522小野町 " +
+    "541広野町 542楢葉町 543富岡町 544川内村 545大熊町 546双葉町 547浪江町 548葛尾村 561新地町 564飯舘村",
+  // 茨城県
+  "201水戸市 202日立市 203土浦市 204古河市 205石岡市 207結城市 208龍ケ崎市 210下妻市 211常総市 212常陸太田市 " +
+    "214高萩市 215北茨城市 216笠間市 217取手市 219牛久市 220つくば市 221ひたちなか市 222鹿嶋市 223潮来市 " +
+    "224守谷市 225常陸大宮市 226那珂市 227筑西市 228坂東市 229稲敷市 230かすみがうら市 231桜川市 232神栖市 " +
+    "233行方市 234鉾田市 235つくばみらい市 236小美玉市 302茨城町 309大洗町 310城里町 341東海村 364大子町 " +
+    "442美浦村 443阿見町 447河内町 521八千代町 542五霞町 546境町 564利根町",
+  // 栃木県
+  "201宇都宮市 202足利市 203栃木市 204佐野市 205鹿沼市 206日光市 208小山市 209真岡市 210大田原市 211矢板市 " +
+    "213那須塩原市 214さくら市 215那須烏山市 216下野市 301上三川町 342益子町 343茂木町 344市貝町 345芳賀町 " +
+    "361壬生町 364野木町 384塩谷町 386高根沢町 407那須町 411那珂川町",
+  // 群馬県
+  "201前橋市 202高崎市 203桐生市 204伊勢崎市 205太田市 206沼田市 207館林市 208渋川市 209藤岡市 210富岡市 " +
+    "211安中市 212みどり市 344榛東村 345吉岡町 366上野村 367神流町 382下仁田町 383南牧村 384甘楽町 421中之条町 " +
+    "424長野原町 425嬬恋村 426草津町 428高山村 429東吾妻町 443片品村 444川場村 448昭和村 449みなかみ町 " +
+    "464玉村町 521板倉町 522明和町 523千代田町 524大泉町 525邑楽町",
+  // 埼玉県
+  "100さいたま市 101西区 102北区 103大宮区 104見沼区 105中央区 106桜区 107浦和区 108南区 109緑区 110岩槻区 " +
+    "201川越市 202熊谷市 203川口市 206行田市 207秩父市 208所沢市 209飯能市 210加須市 211本庄市 212東松山市 " +
+    "214春日部市 215狭山市 216羽生市 217鴻巣市 218深谷市 219上尾市 221草加市 222越谷市 223蕨市 224戸田市 " +
+    "225入間市 227朝霞市 228志木市 229和光市 230新座市 231桶川市 232久喜市 233北本市 234八潮市 235富士見市 " +
+    "237三郷市 238蓮田市 239坂戸市 240幸手市 241鶴ヶ島市 242日高市 243吉川市 245ふじみ野市 246白岡市 301伊奈町 " +
+    "324三芳町 326毛呂山町 327越生町 341滑川町 342嵐山町 343小川町 346川島町 347吉見町 348鳩山町 349ときがわ町 " +
+    "361横瀬町 362皆野町 363長瀞町 365小鹿野町 369東秩父村 381美里町 383神川町 385上里町 408寄居町 442宮代町 " +
+    "464杉戸町 465松伏町",
+  // 千葉県
+  "100千葉市 101中央区 102花見川区 103稲毛区 104若葉区 105緑区 106美浜区 202銚子市 203市川市 204船橋市 " +
+    "205館山市 206木更津市 207松戸市 208野田市 210茂原市 211成田市 212佐倉市 213東金市 215旭市 216習志野市 " +
+    "217柏市 218勝浦市 219市原市 220流山市 221八千代市 222我孫子市 223鴨川市 224鎌ケ谷市 225君津市 226富津市 " +
+    "227浦安市 228四街道市 229袖ケ浦市 230八街市 231印西市 232白井市 233富里市 234南房総市 235匝瑳市 236香取市 " +
+    "237山武市 238いすみ市 239大網白里市 322酒々井町 329栄町 342神崎町 347多古町 349東庄町 403九十九里町 " +
+    "409芝山町 410横芝光町 421一宮町 422睦沢町 423長生村 424白子町 426長柄町 427長南町 441大多喜町 443御宿町 " +
+    "463鋸南町",
+  // 東京都
+  "101千代田区 102中央区 103港区 104新宿区 105文京区 106台東区 107墨田区 108江東区 109品川区 110目黒区 " +
+    "111大田区 112世田谷区 113渋谷区 114中野区 115杉並区 116豊島区 117北区 118荒川区 119板橋区 120練馬区 " +
+    "121足立区 122葛飾区 123江戸川区 201八王子市 202立川市 203武蔵野市 204三鷹市 205青梅市 206府中市 207昭島市 " +
+    "208調布市 209町田市 210小金井市 211小平市 212日野市 213東村山市 214国分寺市 215国立市 218福生市 219狛江市 " +
+    "220東大和市 221清瀬市 222東久留米市 223武蔵村山市 224多摩市 225稲城市 227羽村市 228あきる野市 229西東京市 " +
+    "303瑞穂町 305日の出町 307檜原村 308奥多摩町 361大島町 362利島村 363新島村 364神津島村 381三宅村 " +
+    "382御蔵島村 401八丈町 402青ヶ島村 421小笠原村",
+  // 神奈川県
+  "100横浜市 101鶴見区 102神奈川区 103西区 104中区 105南区 106保土ケ谷区 107磯子区 108金沢区 109港北区 " +
+    "110戸塚区 111港南区 112旭区 113緑区 114瀬谷区 115栄区 116泉区 117青葉区 118都筑区 130川崎市 131川崎区 " +
+    "132幸区 133中原区 134高津区 135多摩区 136宮前区 137麻生区 150相模原市 151緑区 152中央区 153南区 " +
+    "201横須賀市 203平塚市 204鎌倉市 205藤沢市 206小田原市 207茅ヶ崎市 208逗子市 210三浦市 211秦野市 212厚木市 " +
+    "213大和市 214伊勢原市 215海老名市 216座間市 217南足柄市 218綾瀬市 301葉山町 321寒川町 341大磯町 342二宮町 " +
+    "361中井町 362大井町 363松田町 364山北町 366開成町 382箱根町 383真鶴町 384湯河原町 401愛川町 402清川村",
+  // 新潟県
+  "100新潟市 101北区 102東区 103中央区 104江南区 105秋葉区 106南区 107西区 108西蒲区 202長岡市 204三条市 " +
+    "205柏崎市 206新発田市 208小千谷市 209加茂市 210十日町市 211見附市 212村上市 213燕市 216糸魚川市 217妙高市 " +
+    "218五泉市 222上越市 223阿賀野市 224佐渡市 225魚沼市 226南魚沼市 227胎内市 307聖籠町 342弥彦村 361田上町 " +
+    "385阿賀町 405出雲崎町 461湯沢町 482津南町 504刈羽村 581関川村 586粟島浦村",
+  // 富山県
+  "201富山市 202高岡市 204魚津市 205氷見市 206滑川市 207黒部市 208砺波市 209小矢部市 210南砺市 211射水市 " +
+    "321舟橋村 322上市町 323立山町 342入善町 343朝日町",
+  // 石川県
+  "201金沢市 202七尾市 203小松市 204輪島市 205珠洲市 206加賀市 207羽咋市 209かほく市 210白山市 211能美市 " +
+    "212野々市市 324川北町 361津幡町 365内灘町 384志賀町 386宝達志水町 407中能登町 461穴水町 463能登町",
+  // 福井県
+  "201福井市 202敦賀市 204小浜市 205大野市 206勝山市 207鯖江市 208あわら市 209越前市 210坂井市 322永平寺町 " +
+    "382池田町 404南越前町 423越前町 442美浜町 481高浜町 483おおい町 501若狭町",
+  // 山梨県
+  "201甲府市 202富士吉田市 204都留市 205山梨市 206大月市 207韮崎市 208南アルプス市 209北杜市 210甲斐市 " +
+    "211笛吹市 212上野原市 213甲州市 214中央市 346市川三郷町 364早川町 365身延町 366南部町 368富士川町 " +
+    "384昭和町 422道志村 423西桂町 424忍野村 425山中湖村 429鳴沢村 430富士河口湖町 442小菅村 443丹波山村",
+  // 長野県
+  "201長野市 202松本市 203上田市 204岡谷市 205飯田市 206諏訪市 207須坂市 208小諸市 209伊那市 210駒ヶ根市 " +
+    "211中野市 212大町市 213飯山市 214茅野市 215塩尻市 217佐久市 218千曲市 219東御市 220安曇野市 303小海町 " +
+    "304川上村 305南牧村 306南相木村 307北相木村 309佐久穂町 321軽井沢町 323御代田町 324立科町 349青木村 " +
+    "350長和町 361下諏訪町 362富士見町 363原村 382辰野町 383箕輪町 384飯島町 385南箕輪村 386中川村 388宮田村 " +
+    "402松川町 403高森町 404阿南町 407阿智村 409平谷村 410根羽村 411下條村 412売木村 413天龍村 414泰阜村 " +
+    "415喬木村 416豊丘村 417大鹿村 422上松町 423南木曽町 425木祖村 429王滝村 430大桑村 432木曽町 446麻績村 " +
+    "448生坂村 450山形村 451朝日村 452筑北村 481池田町 482松川村 485白馬村 486小谷村 521坂城町 541小布施町 " +
+    "543高山村 561山ノ内町 562木島平村 563野沢温泉村 583信濃町 588小川村 590飯綱町 602栄村",
+  // 岐阜県
+  "201岐阜市 202大垣市 203高山市 204多治見市 205関市 206中津川市 207美濃市 208瑞浪市 209羽島市 210恵那市 " +
+    "211美濃加茂市 212土岐市 213各務原市 214可児市 215山県市 216瑞穂市 217飛騨市 218本巣市 219郡上市 220下呂市 " +
+    "221海津市 302岐南町 303笠松町 341養老町 361垂井町 362関ケ原町 381神戸町 382輪之内町 383安八町 401揖斐川町 " +
+    "403大野町 404池田町 421北方町 501坂祝町 502富加町 503川辺町 504七宗町 505八百津町 506白川町 507東白川村 " +
+    "521御嵩町 604白川村",
+  // 静岡県
+  "100静岡市 101葵区 102駿河区 103清水区 130浜松市 138中央区 139浜名区 140天竜区 203沼津市 205熱海市 " +
+    "206三島市 207富士宮市 208伊東市 209島田市 210富士市 211磐田市 212焼津市 213掛川市 214藤枝市 215御殿場市 " +
+    "216袋井市 219下田市 220裾野市 221湖西市 222伊豆市 223御前崎市 224菊川市 225伊豆の国市 226牧之原市 " +
+    "301東伊豆町 302河津町 304南伊豆町 305松崎町 306西伊豆町 325函南町 341清水町 342長泉町 344小山町 424吉田町 " +
+    "429川根本町 461森町",
+  // 愛知県
+  "100名古屋市 101千種区 102東区 103北区 104西区 105中村区 106中区 107昭和区 108瑞穂区 109熱田区 110中川区 " +
+    "111港区 112南区 113守山区 114緑区 115名東区 116天白区 201豊橋市 202岡崎市 203一宮市 204瀬戸市 205半田市 " +
+    "206春日井市 207豊川市 208津島市 209碧南市 210刈谷市 211豊田市 212安城市 213西尾市 214蒲郡市 215犬山市 " +
+    "216常滑市 217江南市 219小牧市 220稲沢市 221新城市 222東海市 223大府市 224知多市 225知立市 226尾張旭市 " +
+    "227高浜市 228岩倉市 229豊明市 230日進市 231田原市 232愛西市 233清須市 234北名古屋市 235弥富市 236みよし市 " +
+    "237あま市 238長久手市 302東郷町 342豊山町 361大口町 362扶桑町 424大治町 425蟹江町 427飛島村 441阿久比町 " +
+    "442東浦町 445南知多町 446美浜町 447武豊町 501幸田町 562設楽町 563東栄町 564豊根村",
+  // 三重県
+  "201津市 202四日市市 203伊勢市 204松阪市 205桑名市 207鈴鹿市 208名張市 209尾鷲市 210亀山市 211鳥羽市 " +
+    "212熊野市 214いなべ市 215志摩市 216伊賀市 303木曽岬町 324東員町 341菰野町 343朝日町 344川越町 441多気町 " +
+    "442明和町 443大台町 461玉城町 470度会町 471大紀町 472南伊勢町 543紀北町 561御浜町 562紀宝町",
+  // 滋賀県
+  "201大津市 202彦根市 203長浜市 204近江八幡市 206草津市 207守山市 208栗東市 209甲賀市 210野洲市 211湖南市 " +
+    "212高島市 213東近江市 214米原市 383日野町 384竜王町 425愛荘町 441豊郷町 442甲良町 443多賀町",
+  // 京都府
+  "100京都市 101北区 102上京区 103左京区 104中京区 105東山区 106下京区 107南区 108右京区 109伏見区 110山科区 " +
+    "111西京区 201福知山市 202舞鶴市 203綾部市 204宇治市 205宮津市 206亀岡市 207城陽市 208向日市 209長岡京市 " +
+    "210八幡市 211京田辺市 212京丹後市 213南丹市 214木津川市 303大山崎町 322久御山町 343井手町 344宇治田原町 " +
+    "364笠置町 365和束町 366精華町 367南山城村 407京丹波町 463伊根町 465与謝野町",
+  // 大阪府
+  "100大阪市 102都島区 103福島区 104此花区 106西区 107港区 108大正区 109天王寺区 111浪速区 113西淀川区 " +
+    "114東淀川区 115東成区 116生野区 117旭区 118城東区 119阿倍野区 120住吉区 121東住吉区 122西成区 123淀川区 " +
+    "124鶴見区 125住之江区 126平野区 127北区 128中央区 140堺市 141堺区 142中区 143東区 144西区 145南区 146北区 " +
+    "147美原区 202岸和田市 203豊中市 204池田市 205吹田市 206泉大津市 207高槻市 208貝塚市 209守口市 210枚方市 " +
+    "211茨木市 212八尾市 213泉佐野市 214富田林市 215寝屋川市 216河内長野市 217松原市 218大東市 219和泉市 " +
+    "220箕面市 221柏原市 222羽曳野市 223門真市 224摂津市 225高石市 226藤井寺市 227東大阪市 228泉南市 " +
+    "229四條畷市 230交野市 231大阪狭山市 232阪南市 301島本町 321豊能町 322能勢町 341忠岡町 361熊取町 362田尻町 " +
+    "366岬町 381太子町 382河南町 383千早赤阪村",
+  // 兵庫県
+  "100神戸市 101東灘区 102灘区 105兵庫区 106長田区 107須磨区 108垂水区 109北区 110中央区 111西区 201姫路市 " +
+    "202尼崎市 203明石市 204西宮市 205洲本市 206芦屋市 207伊丹市 208相生市 209豊岡市 210加古川市 212赤穂市 " +
+    "213西脇市 214宝塚市 215三木市 216高砂市 217川西市 218小野市 219三田市 220加西市 221丹波篠山市 222養父市 " +
+    "223丹波市 224南あわじ市 225朝来市 226淡路市 227宍粟市 228加東市 229たつの市 301猪名川町 365多可町 " +
+    "381稲美町 382播磨町 442市川町 443福崎町 446神河町 464太子町 481上郡町 501佐用町 585香美町 586新温泉町",
+  // 奈良県
+  "201奈良市 202大和高田市 203大和郡山市 204天理市 205橿原市 206桜井市 207五條市 208御所市 209生駒市 " +
+    "210香芝市 211葛城市 212宇陀市 322山添村 342平群町 343三郷町 344斑鳩町 345安堵町 361川西町 362三宅町 " +
+    "363田原本町 385曽爾村 386御杖村 401高取町 402明日香村 424上牧町 425王寺町 426広陵町 427河合町 441吉野町 " +
+    "442大淀町 443下市町 444黒滝村 446天川村 447野迫川村 449十津川村 450下北山村 451上北山村 452川上村 " +
+    "453東吉野村",
+  // 和歌山県
+  "201和歌山市 202海南市 203橋本市 204有田市 205御坊市 206田辺市 207新宮市 208紀の川市 209岩出市 304紀美野町 " +
+    "341かつらぎ町 343九度山町 344高野町 361湯浅町 362広川町 366有田川町 381美浜町 382日高町 383由良町 " +
+    "390印南町 391みなべ町 392日高川町 401白浜町 404上富田町 406すさみ町 421那智勝浦町 422太地町 424古座川町 " +
+    "427北山村 428串本町",
+  // 鳥取県
+  "201鳥取市 202米子市 203倉吉市 204境港市 302岩美町 325若桜町 328智頭町 329八頭町 364三朝町 370湯梨浜町 " +
+    "371琴浦町 372北栄町 384日吉津村 386大山町 389南部町 390伯耆町 401日南町 402日野町 403江府町",
+  // 島根県
+  "201松江市 202浜田市 203出雲市 204益田市 205大田市 206安来市 207江津市 209雲南市 343奥出雲町 386飯南町 " +
+    "441川本町 448美郷町 449邑南町 501津和野町 505吉賀町 525海士町 526西ノ島町 527知夫村 528隠岐の島町",
+  // 岡山県
+  "100岡山市 101北区 102中区 103東区 104南区 202倉敷市 203津山市 204玉野市 205笠岡市 207井原市 208総社市 " +
+    "209高梁市 210新見市 211備前市 212瀬戸内市 213赤磐市 214真庭市 215美作市 216浅口市 346和気町 423早島町 " +
+    "445里庄町 461矢掛町 586新庄村 606鏡野町 622勝央町 623奈義町 643西粟倉村 663久米南町 666美咲町 " +
+    "681吉備中央町",
+  // 広島県
+  "100広島市 101中区 102東区 103南区 104西区 105安佐南区 106安佐北区 107安芸区 108佐伯区 202呉市 203竹原市 " +
+    "204三原市 205尾道市 207福山市 208府中市 209三次市 210庄原市 211大竹市 212東広島市 213廿日市市 " +
+    "214安芸高田市 215江田島市 302府中町 304海田町 307熊野町 309坂町 368安芸太田町 369北広島町 431大崎上島町 " +
+    "462世羅町 545神石高原町",
+  // 山口県
+  "201下関市 202宇部市 203山口市 204萩市 206防府市 207下松市 208岩国市 210光市 211長門市 212柳井市 213美祢市 " +
+    "215周南市 216山陽小野田市 305周防大島町 321和木町 341上関町 343田布施町 344平生町 502阿武町",
+  // 徳島県
+  "201徳島市 202鳴門市 203小松島市 204阿南市 205吉野川市 206阿波市 207美馬市 208三好市 301勝浦町 302上勝町 " +
+    "321佐那河内村 341石井町 342神山町 368那賀町 383牟岐町 387美波町 388海陽町 401松茂町 402北島町 403藍住町 " +
+    "404板野町 405上板町 468つるぎ町 489東みよし町",
+  // 香川県
+  "201高松市 202丸亀市 203坂出市 204善通寺市 205観音寺市 206さぬき市 207東かがわ市 208三豊市 322土庄町 " +
+    "324小豆島町 341三木町 364直島町 386宇多津町 387綾川町 403琴平町 404多度津町 406まんのう町",
+  // 愛媛県
+  "201松山市 202今治市 203宇和島市 204八幡浜市 205新居浜市 206西条市 207大洲市 210伊予市 213四国中央市 " +
+    "214西予市 215東温市 356上島町 386久万高原町 401松前町 402砥部町 422内子町 442伊方町 484松野町 488鬼北町 " +
+    "506愛南町",
+  // 高知県
+  "201高知市 202室戸市 203安芸市 204南国市 205土佐市 206須崎市 208宿毛市 209土佐清水市 210四万十市 211香南市 " +
+    "212香美市 301東洋町 302奈半利町 303田野町 304安田町 305北川村 306馬路村 307芸西村 341本山町 344大豊町 " +
+    "363土佐町 364大川村 386いの町 387仁淀川町 401中土佐町 402佐川町 403越知町 405檮原町 410日高村 411津野町 " +
+    "412四万十町 424大月町 427三原村 428黒潮町",
+  // 福岡県
+  "100北九州市 101門司区 103若松区 105戸畑区 106小倉北区 107小倉南区 108八幡東区 109八幡西区 130福岡市 " +
+    "131東区 132博多区 133中央区 134南区 135西区 136城南区 137早良区 202大牟田市 203久留米市 204直方市 " +
+    "205飯塚市 206田川市 207柳川市 210八女市 211筑後市 212大川市 213行橋市 214豊前市 215中間市 216小郡市 " +
+    "217筑紫野市 218春日市 219大野城市 220宗像市 221太宰府市 223古賀市 224福津市 225うきは市 226宮若市 " +
+    "227嘉麻市 228朝倉市 229みやま市 230糸島市 231那珂川市 341宇美町 342篠栗町 343志免町 344須恵町 345新宮町 " +
+    "348久山町 349粕屋町 381芦屋町 382水巻町 383岡垣町 384遠賀町 401小竹町 402鞍手町 421桂川町 447筑前町 " +
+    "448東峰村 503大刀洗町 522大木町 544広川町 601香春町 602添田町 604糸田町 605川崎町 608大任町 609赤村 " +
+    "610福智町 621苅田町 625みやこ町 642吉富町 646上毛町 647築上町",
+  // 佐賀県
+  "201佐賀市 202唐津市 203鳥栖市 204多久市 205伊万里市 206武雄市 207鹿島市 208小城市 209嬉野市 210神埼市 " +
+    "327吉野ヶ里町 341基山町 345上峰町 346みやき町 387玄海町 401有田町 423大町町 424江北町 425白石町 441太良町",
+  // 長崎県
+  "201長崎市 202佐世保市 203島原市 204諫早市 205大村市 207平戸市 208松浦市 209対馬市 210壱岐市 211五島市 " +
+    "212西海市 213雲仙市 214南島原市 307長与町 308時津町 321東彼杵町 322川棚町 323波佐見町 383小値賀町 " +
+    "391佐々町 411新上五島町",
+  // 熊本県
+  "100熊本市 101中央区 102東区 103西区 104南区 105北区 202八代市 203人吉市 204荒尾市 205水俣市 206玉名市 " +
+    "208山鹿市 210菊池市 211宇土市 212上天草市 213宇城市 214阿蘇市 215天草市 216合志市 348美里町 364玉東町 " +
+    "367南関町 368長洲町 369和水町 403大津町 404菊陽町 423南小国町 424小国町 425産山村 428高森町 432西原村 " +
+    "433南阿蘇村 441御船町 442嘉島町 443益城町 444甲佐町 447山都町 468氷川町 482芦北町 484津奈木町 501錦町 " +
+    "505多良木町 506湯前町 507水上村 510相良村 511五木村 512山江村 513球磨村 514あさぎり町 531苓北町",
+  // 大分県
+  "201大分市 202別府市 203中津市 204日田市 205佐伯市 206臼杵市 207津久見市 208竹田市 209豊後高田市 210杵築市 " +
+    "211宇佐市 212豊後大野市 213由布市 214国東市 322姫島村 341日出町 461九重町 462玖珠町",
+  // 宮崎県
+  "201宮崎市 202都城市 203延岡市 204日南市 205小林市 206日向市 207串間市 208西都市 209えびの市 341三股町 " +
+    "361高原町 382国富町 383綾町 401高鍋町 402新富町 403西米良村 404木城町 405川南町 406都農町 421門川町 " +
+    "429諸塚村 430椎葉村 431美郷町 441高千穂町 442日之影町 443五ヶ瀬町",
+  // 鹿児島県
+  "201鹿児島市 203鹿屋市 204枕崎市 206阿久根市 208出水市 210指宿市 213西之表市 214垂水市 215薩摩川内市 " +
+    "216日置市 217曽於市 218霧島市 219いちき串木野市 220南さつま市 221志布志市 222奄美市 223南九州市 224伊佐市 " +
+    "225姶良市 303三島村 304十島村 392さつま町 404長島町 452湧水町 468大崎町 482東串良町 490錦江町 491南大隅町 " +
+    "492肝付町 501中種子町 502南種子町 505屋久島町 523大和村 524宇検村 525瀬戸内町 527龍郷町 529喜界町 " +
+    "530徳之島町 531天城町 532伊仙町 533和泊町 534知名町 535与論町",
+  // 沖縄県
+  "201那覇市 205宜野湾市 207石垣市 208浦添市 209名護市 210糸満市 211沖縄市 212豊見城市 213うるま市 214宮古島市 " +
+    "215南城市 301国頭村 302大宜味村 303東村 306今帰仁村 308本部町 311恩納村 313宜野座村 314金武町 315伊江村 " +
+    "324読谷村 325嘉手納町 326北谷町 327北中城村 328中城村 329西原町 348与那原町 350南風原町 353渡嘉敷村 " +
+    "354座間味村 355粟国村 356渡名喜村 357南大東村 358北大東村 359伊平屋村 360伊是名村 361久米島町 362八重瀬町 " +
+    "375多良間村 381竹富町 382与那国町",
+]
+
+// Spellings that differ from the table's: small and large ケ, and common simplified kanji
+const NAME_VARIANTS: [RegExp, string][] = [
+  [/ケ/g, "ヶ"],
+  [/梼/g, "檮"],
+  [/鯵/g, "鰺"],
+  [/桧/g, "檜"],
+]
+
+// Replaces one character with one, so positions in the result match those in `text`
+const replaceVariants = (text: string) =>
+  NAME_VARIANTS.reduce((current, [pattern, replacement]) => current.replace(pattern, replacement), text)
+
+const normalizeName = (name: string) => replaceVariants(name).normalize("NFKC").replace(/\s+/g, "")
+
+let namesByCode: Map<string, string> | null = null
+let codesByName: Map<string, string> | null = null
+// Every name of a prefecture, longest first
+let namesByPref: Map<string, string[]> | null = null
+
+// Parsed on first use so that pages that never need the table do not pay for it
+const loadTable = () => {
+  if (namesByCode && codesByName && namesByPref) return { namesByCode, codesByName, namesByPref }
+  namesByCode = new Map()
+  codesByName = new Map()
+  namesByPref = new Map()
+  MUNICIPALITY_TABLE.forEach((entries, i) => {
+    const pref = String(i + 1).padStart(2, "0")
+    const names: string[] = []
+    namesByPref?.set(pref, names)
+    let designatedCity = ""
+    entries.split(" ").forEach((entry) => {
+      const code = `${pref}${entry.slice(0, 3)}`
+      let name = entry.slice(3)
+      // Wards of a designated city follow the city itself; Tokyo's special wards stand alone
+      if (Number(entry.slice(0, 3)) < 200) {
+        if (name.endsWith("市")) designatedCity = name
+        else name = `${designatedCity}${name}`
+      }
+      namesByCode?.set(code, name)
+      codesByName?.set(`${pref}:${normalizeName(name)}`, code)
+      names.push(normalizeName(name))
+    })
+    names.sort((a, b) => b.length - a.length)
+  })
+  return { namesByCode, codesByName, namesByPref }
+}
+
+/** The municipality a five-digit code ("13101", or "1101" with the leading zero lost) stands for, or "" */
+export const municipalityName = (code: string) => loadTable().namesByCode.get(code.padStart(5, "0")) ?? ""
+
+/**
+ * The five-digit code for a municipality of `pref`. The name may carry its
+ * district ("西多摩郡奥多摩町"); designated cities resolve to the ward when
+ * one is given and to the city otherwise. "" when it does not resolve.
+ */
+export const municipalityCode = (pref: string, city: string) => {
+  const prefCode = prefectureCode(pref)
+  if (!prefCode || !city) return ""
+  const { codesByName: codes } = loadTable()
+  const name = normalizeName(city)
+  return (
+    codes.get(`${prefCode}:${name}`) ??
+    // 郡 is not part of the town's own name; 郡山市 and 大和郡山市 have already matched above
+    codes.get(`${prefCode}:${name.replace(/^.+?郡/, "")}`) ??
+    ""
+  )
+}
+
+/**
+ * The municipality `address` (the part after the prefecture) starts with, as
+ * written there including any district, or "" when no name of `pref`
+ * matches. The longest name wins, so 四日市市 is not cut to 四日市 and a
+ * ward is preferred to its city.
+ */
+export const leadingMunicipality = (pref: string, address: string) => {
+  const prefCode = prefectureCode(pref)
+  if (!prefCode) return ""
+  const names = loadTable().namesByPref.get(prefCode) ?? []
+  const longestPrefix = (text: string) => {
+    const comparable = replaceVariants(text)
+    return names.find((name) => comparable.startsWith(name)) ?? ""
+  }
+  const name = longestPrefix(address)
+  if (name) return address.slice(0, name.length)
+  const district = /^.+?郡/.exec(address)?.[0] ?? ""
+  const town = district ? longestPrefix(address.slice(district.length)) : ""
+  return town ? address.slice(0, district.length + town.length) : ""
+}
+
+/** Appends the JIS X 0402 check digit, giving the six-digit 全国地方公共団体コード */
+export const withCheckDigit = (code: string) => {
+  const sum = code.split("").reduce((total, digit, i) => total + Number(digit) * (6 - i), 0)
+  return `${code}${(11 - (sum % 11)) % 10}`
+}
+
+/** The prefecture a municipality code belongs to */
+export const prefectureOfMunicipality = (code: string) => prefectureFromCode(code.padStart(5, "0").slice(0, 2))
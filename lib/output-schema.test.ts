@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_OUTPUT_SCHEMA, applyOutputSchema, parseOutputSchema, type OutputSchema } from "@/lib/output-schema"
+import type { GeocodedRow } from "@/lib/pipeline"
+
+describe("output schema", () => {
+  const sourceRows: GeocodedRow[] = [
+    {
+      id: "1",
+      住所: "新宿区西新宿2-8-1",
+      備考: "本庁舎",
+      latitude: 35.6895014,
+      longitude: 139.6917337,
+      geocoding_status: "成功",
+      error_message: undefined,
+    },
+    { id: "2", 住所: "", 備考: "", latitude: undefined, longitude: undefined, geocoding_status: "スキップ" },
+  ]
+  const schema: OutputSchema = {
+    columnNames: { latitude: "lat", longitude: "lng", geocoding_status: "" },
+    precision: 4,
+    placement: "after_address",
+    statusLabels: "en",
+  }
+
+  it("rejects a name that another column already has", () => {
+    expect(() =>
+      applyOutputSchema(sourceRows, { ...schema, columnNames: { latitude: "備考" } }, { sourceColumns: ["備考"] })
+    ).toThrow("出力列名「備考」が他の列と重複しています")
+  })
+
+  it("falls back to the defaults for settings a preset file gets wrong", () => {
+    expect(parseOutputSchema('{"columnNames":{"latitude":"y","longitude":1},"precision":"6","placement":"top"}')).toEqual(
+      { ...DEFAULT_OUTPUT_SCHEMA, columnNames: { latitude: "y" } }
+    )
+  })
+})
@@ -0,0 +1,179 @@
+import type { ExportRow } from "@/lib/export-formats"
+import { OUTPUT_PRESET_STORE, withStore } from "@/lib/idb"
+
+export type ColumnPlacement = "append" | "prepend" | "after_address"
+
+export type StatusLabelStyle = "ja" | "en"
+
+/** How the generated columns are named, rounded and placed in the export */
+export interface OutputSchema {
+  // Output name for a generated column; columns left out or empty keep their own name
+  columnNames: Record<string, string>
+  // Decimal places of latitude and longitude, or null to keep what the geocoder returned
+  precision: number | null
+  placement: ColumnPlacement
+  statusLabels: StatusLabelStyle
+}
+
+export const DEFAULT_OUTPUT_SCHEMA: OutputSchema = {
+  columnNames: {},
+  precision: null,
+  placement: "append",
+  statusLabels: "ja",
+}
+
+export const RENAMEABLE_COLUMNS: { column: string; label: string }[] = [
+  { column: "latitude", label: "緯度" },
+  { column: "longitude", label: "経度" },
+  { column: "lat_lon", label: "緯度,経度（1列）" },
+  { column: "geocoding_status", label: "ステータス" },
+  { column: "error_message", label: "エラー内容" },
+]
+
+export const COLUMN_PLACEMENTS: { id: ColumnPlacement; label: string }[] = [
+  { id: "append", label: "元の列の後ろ" },
+  { id: "prepend", label: "元の列の前" },
+  { id: "after_address", label: "住所（座標）列の直後" },
+]
+
+// Codes that stay the same when the Japanese labels are reworded
+export const STATUS_CODES: Record<string, string> = {
+  成功: "ok",
+  低精度: "low_precision",
+  手動修正: "manual",
+  失敗: "not_found",
+  スキップ: "empty",
+  未処理: "pending",
+  通信エラー: "network_error",
+  タイムアウト: "timeout",
+  エラー: "error",
+}
+
+export const MAX_PRECISION = 10
+
+export interface OutputLayout {
+  // The input file's columns; they keep their names and order
+  sourceColumns?: string[]
+  // Generated columns placed after the address follow the last of these
+  addressColumns?: string[]
+}
+
+export const outputColumnName = (column: string, schema: OutputSchema) => schema.columnNames[column]?.trim() || column
+
+const isDefaultSchema = (schema: OutputSchema) =>
+  schema.precision === null &&
+  schema.placement === "append" &&
+  schema.statusLabels === "ja" &&
+  Object.values(schema.columnNames).every((name) => !name.trim())
+
+const roundCoordinate = (value: number, precision: number) => Number(value.toFixed(precision))
+
+const formatValue = (column: string, value: ExportRow[string], schema: OutputSchema) => {
+  const { precision } = schema
+  if (precision !== null && (column === "latitude" || column === "longitude") && typeof value === "number") {
+    return roundCoordinate(value, precision)
+  }
+  if (precision !== null && column === "lat_lon" && value) {
+    return String(value)
+      .split(",")
+      .map((part) => roundCoordinate(Number(part), precision))
+      .join(",")
+  }
+  if (schema.statusLabels === "en" && column === "geocoding_status" && typeof value === "string") {
+    return STATUS_CODES[value] ?? value
+  }
+  return value
+}
+
+/** Renamed columns that would collide with another output column */
+export const conflictingColumnNames = (schema: OutputSchema, columns: string[]) => {
+  const renamed = RENAMEABLE_COLUMNS.map(({ column }) => column).filter((column) => outputColumnName(column, schema) !== column)
+  const others = new Set(
+    [...columns, ...RENAMEABLE_COLUMNS.map(({ column }) => column)].filter((column) => !renamed.includes(column))
+  )
+  const names = renamed.map((column) => outputColumnName(column, schema))
+  return names.filter((name, i) => others.has(name) || names.indexOf(name) !== i)
+}
+
+/**
+ * Applies the schema to export rows: the generated columns are rounded,
+ * relabelled, renamed and moved, while the input columns are left alone.
+ */
+export const applyOutputSchema = (
+  rows: ExportRow[],
+  schema: OutputSchema,
+  { sourceColumns = [], addressColumns = [] }: OutputLayout = {}
+) => {
+  if (isDefaultSchema(schema)) return rows
+  const conflicts = conflictingColumnNames(schema, rows.length > 0 ? Object.keys(rows[0]) : [])
+  if (conflicts.length > 0) {
+    throw new Error(`出力列名「${conflicts[0]}」が他の列と重複しています`)
+  }
+
+  const sources = new Set(sourceColumns)
+  return rows.map((row) => {
+    const keys = Object.keys(row)
+    const own = keys.filter((key) => sources.has(key))
+    const generated = keys.filter((key) => !sources.has(key))
+    const anchor = Math.max(-1, ...addressColumns.map((column) => own.indexOf(column)))
+    const order =
+      schema.placement === "prepend"
+        ? [...generated, ...own]
+        : schema.placement === "after_address" && anchor >= 0
+          ? [...own.slice(0, anchor + 1), ...generated, ...own.slice(anchor + 1)]
+          : [...own, ...generated]
+    const shaped: ExportRow = {}
+    order.forEach((key) => {
+      shaped[sources.has(key) ? key : outputColumnName(key, schema)] = formatValue(key, row[key], schema)
+    })
+    return shaped
+  })
+}
+
+/**
+ * Reads a schema saved as JSON (a preset file or the CLI's --schema). Unknown
+ * or invalid settings fall back to the defaults rather than failing.
+ */
+export const parseOutputSchema = (text: string): OutputSchema => {
+  const value: unknown = JSON.parse(text)
+  if (!value || typeof value !== "object") throw new Error("出力形式の設定は JSON オブジェクトで指定してください")
+  const input = value as Partial<Record<keyof OutputSchema, unknown>>
+  const columnNames: Record<string, string> = {}
+  if (input.columnNames && typeof input.columnNames === "object") {
+    Object.entries(input.columnNames).forEach(([column, name]) => {
+      if (typeof name === "string") columnNames[column] = name
+    })
+  }
+  const precision =
+    typeof input.precision === "number" && Number.isInteger(input.precision)
+      ? Math.min(MAX_PRECISION, Math.max(0, input.precision))
+      : null
+  return {
+    columnNames,
+    precision,
+    placement: COLUMN_PLACEMENTS.some(({ id }) => id === input.placement)
+      ? (input.placement as ColumnPlacement)
+      : DEFAULT_OUTPUT_SCHEMA.placement,
+    statusLabels: input.statusLabels === "en" ? "en" : "ja",
+  }
+}
+
+export interface OutputPreset {
+  name: string
+  schema: OutputSchema
+  savedAt: number
+}
+
+export const loadOutputPresets = async () => {
+  const presets = await withStore<OutputPreset[]>(OUTPUT_PRESET_STORE, "readonly", (store) => store.getAll())
+  return presets.sort((a, b) => a.name.localeCompare(b.name, "ja"))
+}
+
+/** Saves the schema under `name`, replacing a preset of the same name */
+export const saveOutputPreset = async (name: string, schema: OutputSchema) => {
+  const preset: OutputPreset = { name, schema, savedAt: Date.now() }
+  await withStore(OUTPUT_PRESET_STORE, "readwrite", (store) => store.put(preset))
+}
+
+export const deleteOutputPreset = (name: string) =>
+  withStore(OUTPUT_PRESET_STORE, "readwrite", (store) => store.delete(name))
@@ -0,0 +1,597 @@
+import Encoding from "encoding-japanese"
+import { describe, expect, it } from "vitest"
+import {
+  assignColumn,
+  EMPTY_ADDRESS_MAPPING,
+  guessAddressMapping,
+  mappingFromColumns,
+  moveRole,
+  type AddressRole,
+} from "@/lib/address-mapping"
+import { DEFAULT_NORMALIZATION_RULES } from "@/lib/address-normalizer"
+import type { GeocoderResult, GeocodingProvider, ReverseGeocoderResult } from "@/lib/geocoders"
+import type { RetryOptions } from "@/lib/lookup-retry"
+import type { OutputSchema } from "@/lib/output-schema"
+import {
+  addMunicipalityCode,
+  buildAddress,
+  buildExportRows,
+  createAddressLookup,
+  createCoordinateLookup,
+  createQueueRunner,
+  exportRows,
+  geocodeRows,
+  readSource,
+  reverseGeocodeRows,
+  type CoordinateColumns,
+  type ExportOptions,
+  type GeocodedRow,
+  type LookupCache,
+  type LookupQueueRunner,
+} from "@/lib/pipeline"
+
+const TOKYO: GeocoderResult = {
+  lat: 35.689634,
+  lng: 139.692101,
+  level: 3,
+  pref: "東京都",
+  city: "新宿区",
+  town: "西新宿二丁目",
+  addr: "8-1",
+}
+
+const SAPPORO: GeocoderResult = {
+  lat: 43.06417,
+  lng: 141.34694,
+  level: 2,
+  pref: "北海道",
+  city: "札幌市中央区",
+  town: "",
+  addr: "",
+}
+
+const OSAKA_REVERSE: ReverseGeocoderResult = { pref: "大阪府", city: "大阪市北区", town: "梅田一丁目", address: "" }
+
+// Answers from fixed tables and records every call so deduplication can be checked
+const createStubProvider = () => {
+  const calls: string[] = []
+  const provider: GeocodingProvider = {
+    id: "mock",
+    namespace: "stub",
+    load: () => Promise.resolve(),
+    geocode: async (address) => {
+      calls.push(address)
+      if (address.includes("エラー")) throw new Error("network down")
+      if (address.startsWith("東京都新宿区西新宿2-8-1")) return TOKYO
+      if (address.startsWith("北海道札幌市")) return SAPPORO
+      return null
+    },
+    reverseGeocode: async (lat, lng) => {
+      calls.push(`${lat},${lng}`)
+      return lat > 34 && lat < 35 ? OSAKA_REVERSE : null
+    },
+  }
+  return { provider, calls }
+}
+
+const runQueue = createQueueRunner({ concurrency: 2, requestsPerSecond: 0 })
+
+const forwardSettings = {
+  addressMapping: mappingFromColumns(["都道府県", "住所"]),
+  normalizationRules: DEFAULT_NORMALIZATION_RULES,
+  minMatchLevel: 3,
+}
+
+const coordinateColumns: CoordinateColumns = {
+  coordinateInput: "separate",
+  latColumn: "lat",
+  lngColumn: "lng",
+  latLonColumn: "",
+}
+
+const exportOptions = (overrides: Partial<ExportOptions>): ExportOptions => ({
+  format: "csv",
+  mode: "forward",
+  coordinateFormat: "separate",
+  coordinateColumns,
+  outputEncoding: "utf-8",
+  includeMissing: false,
+  documentName: "test",
+  ...overrides,
+})
+
+const blobText = async (content: BlobPart) => new Blob([content]).text()
+// Unlike Blob.text(), keeps the byte order mark
+const blobTextWithBom = async (content: BlobPart) =>
+  new TextDecoder("utf-8", { ignoreBOM: true }).decode(await new Blob([content]).arrayBuffer())
+
+describe("buildAddress", () => {
+  const row = { 郵便番号: "160-0023", 市: "新宿区", 県: " 東京都 ", 町: "", 番地: "西新宿2-8-1", 建物: "都庁" }
+  const mapping = [
+    ["postalCode", "郵便番号"],
+    ["pref", "県"],
+    ["city", "市"],
+    ["town", "町"],
+    ["block", "番地"],
+    ["building", "建物"],
+  ].reduce((current, [role, column]) => assignColumn(current, role as AddressRole, column), EMPTY_ADDRESS_MAPPING)
+
+  it("joins the trimmed, non-empty parts in role order without the postal code and building", () => {
+    expect(buildAddress(row, mapping)).toBe("東京都新宿区西新宿2-8-1")
+  })
+
+  it("follows the reordered roles and puts each separator before its part", () => {
+    const reordered = moveRole(moveRole(mapping, "city", -1), "city", -1).map((part) =>
+      part.role === "block" ? { ...part, separator: " " } : part
+    )
+    expect(buildAddress(row, reordered)).toBe("新宿区東京都 西新宿2-8-1")
+  })
+
+  it("builds the address from a guessed mapping in address order", () => {
+    const rows = [{ 所在地2: "大手前2丁目", 所在地1: "大阪府大阪市中央区", 郵便: "540-8570" }]
+    expect(buildAddress(rows[0], guessAddressMapping(Object.keys(rows[0]), rows))).toBe("大阪府大阪市中央区大手前2丁目")
+  })
+})
+
+describe("geocodeRows", () => {
+  it("sets the status of each row from the provider result", async () => {
+    const { provider } = createStubProvider()
+    const rows: GeocodedRow[] = [
+      { 都道府県: "東京都", 住所: "新宿区西新宿２－８－１ 都庁ビル" },
+      { 都道府県: "北海道", 住所: "札幌市中央区" },
+      { 都道府県: "沖縄県", 住所: "存在しない町" },
+      { 都道府県: "", 住所: "" },
+      { 都道府県: "エラー", 住所: "市" },
+    ]
+
+    const { geocodedRows, cancelled } = await geocodeRows(
+      rows,
+      forwardSettings,
+      createAddressLookup(provider),
+      runQueue
+    )
+
+    expect(cancelled).toBe(false)
+    expect(geocodedRows.map((row) => row.geocoding_status)).toEqual(["成功", "低精度", "失敗", "スキップ", "エラー"])
+    expect(geocodedRows[2].error_message).toBe("結果が見つかりません")
+    expect(geocodedRows[4].error_message).toBe("network down")
+    expect(geocodedRows[0]).toMatchObject({
+      normalized_address: "東京都新宿区西新宿2-8-1",
+      latitude: TOKYO.lat,
+      longitude: TOKYO.lng,
+      normalized_city: "新宿区",
+      from_cache: "no",
+    })
+    // Source columns are kept untouched
+    expect(geocodedRows[0]["住所"]).toBe("新宿区西新宿２－８－１ 都庁ビル")
+  })
+
+  it("flags rows whose postal code belongs to another prefecture", async () => {
+    const { provider } = createStubProvider()
+    const rows: GeocodedRow[] = [
+      { 郵便番号: "〒160-0023", 都道府県: "東京都", 住所: "新宿区西新宿2-8-1" },
+      { 郵便番号: "060-0001", 都道府県: "東京都", 住所: "新宿区西新宿2-8-1" },
+      { 郵便番号: "", 都道府県: "東京都", 住所: "新宿区西新宿2-8-1" },
+    ]
+
+    const { geocodedRows } = await geocodeRows(
+      rows,
+      { ...forwardSettings, addressMapping: mappingFromColumns(["郵便番号", "都道府県", "住所"]) },
+      createAddressLookup(provider),
+      runQueue
+    )
+
+    expect(geocodedRows.map((row) => row.postal_pref_mismatch)).toEqual(["no", "yes", ""])
+    expect(geocodedRows[1].postal_pref).toBe("北海道")
+    // The postal code is not part of the geocoded address
+    expect(geocodedRows[0].normalized_address).toBe("東京都新宿区西新宿2-8-1")
+  })
+
+  it("geocodes each distinct normalized address only once", async () => {
+    const { provider, calls } = createStubProvider()
+    const rows: GeocodedRow[] = [
+      { 都道府県: "東京都", 住所: "新宿区西新宿2-8-1" },
+      { 都道府県: "東京都", 住所: "新宿区西新宿２－８－１" },
+      { 都道府県: "東京都", 住所: "新宿区 西新宿 2-8-1" },
+    ]
+
+    const { geocodedRows } = await geocodeRows(rows, forwardSettings, createAddressLookup(provider), runQueue)
+
+    expect(calls).toHaveLength(1)
+    expect(geocodedRows.every((row) => row.latitude === TOKYO.lat)).toBe(true)
+  })
+
+  it("answers from the cache and only caches matches", async () => {
+    const { provider, calls } = createStubProvider()
+    const store = new Map<string, unknown>()
+    const cache: LookupCache = {
+      get: async <T>(namespace: string, key: string) => store.get(`${namespace}|${key}`) as T | undefined,
+      put: async (namespace, key, result) => {
+        store.set(`${namespace}|${key}`, result)
+      },
+    }
+    store.set("stub|北海道札幌市中央区", { ...SAPPORO, level: 3 })
+    const rows: GeocodedRow[] = [
+      { 都道府県: "北海道", 住所: "札幌市中央区" },
+      { 都道府県: "東京都", 住所: "新宿区西新宿2-8-1" },
+      { 都道府県: "沖縄県", 住所: "存在しない町" },
+    ]
+
+    const { geocodedRows } = await geocodeRows(rows, forwardSettings, createAddressLookup(provider, cache), runQueue)
+
+    expect(geocodedRows.map((row) => row.from_cache)).toEqual(["yes", "no", "no"])
+    expect(geocodedRows[0].geocoding_status).toBe("成功")
+    expect([...calls].sort()).toEqual(["東京都新宿区西新宿2-8-1", "沖縄県存在しない町"].sort())
+    expect(Array.from(store.keys())).toEqual(["stub|北海道札幌市中央区", "stub|東京都新宿区西新宿2-8-1"])
+  })
+
+  it("answers cached addresses without waiting for rate-limit slots", async () => {
+    const { provider, calls } = createStubProvider()
+    const store = new Map<string, unknown>([
+      ["stub|東京都新宿区西新宿2-8-1", TOKYO],
+      ["stub|北海道札幌市中央区", SAPPORO],
+      ["stub|大阪府大阪市北区", { ...TOKYO, pref: "大阪府" }],
+    ])
+    const cache: LookupCache = {
+      get: async <T>(namespace: string, key: string) => store.get(`${namespace}|${key}`) as T | undefined,
+      put: async (namespace, key, result) => {
+        store.set(`${namespace}|${key}`, result)
+      },
+    }
+    const rows: GeocodedRow[] = [
+      { 都道府県: "東京都", 住所: "新宿区西新宿2-8-1" },
+      { 都道府県: "北海道", 住所: "札幌市中央区" },
+      { 都道府県: "大阪府", 住所: "大阪市北区" },
+    ]
+    const progress: number[] = []
+    // Three lookups at one per second would take two seconds
+    const slowQueue = createQueueRunner({
+      concurrency: 1,
+      requestsPerSecond: 1,
+      onProgress: (p) => progress.push(p.processed),
+    })
+
+    const startedAt = Date.now()
+    const { geocodedRows } = await geocodeRows(rows, forwardSettings, createAddressLookup(provider, cache), slowQueue)
+
+    expect(Date.now() - startedAt).toBeLessThan(500)
+    expect(calls).toEqual([])
+    expect(geocodedRows.map((row) => row.from_cache)).toEqual(["yes", "yes", "yes"])
+    expect(progress.at(-1)).toBe(3)
+  })
+
+  it("marks rows the queue never reached as unprocessed", async () => {
+    const { provider } = createStubProvider()
+    // Stops after the first entry, as a cancelled job would
+    const cancellingQueue: LookupQueueRunner = async (queue, lookup) => ({
+      lookups: new Map([[queue[0], await lookup(queue[0])]]),
+      cancelled: true,
+    })
+    const rows: GeocodedRow[] = [
+      { 都道府県: "東京都", 住所: "新宿区西新宿2-8-1" },
+      { 都道府県: "北海道", 住所: "札幌市中央区" },
+    ]
+
+    const { geocodedRows, cancelled } = await geocodeRows(
+      rows,
+      forwardSettings,
+      createAddressLookup(provider),
+      cancellingQueue
+    )
+
+    expect(cancelled).toBe(true)
+    expect(geocodedRows.map((row) => row.geocoding_status)).toEqual(["成功", "未処理"])
+  })
+
+  it("hands finished rows out in source order while the queue is still running", async () => {
+    const { provider } = createStubProvider()
+    let release = () => {}
+    const held = new Promise<void>((resolve) => (release = resolve))
+    const slowProvider: GeocodingProvider = {
+      ...provider,
+      geocode: async (address) => {
+        if (address.startsWith("北海道")) await held
+        return provider.geocode(address)
+      },
+    }
+    const rows: GeocodedRow[] = [
+      { 都道府県: "東京都", 住所: "新宿区西新宿2-8-1" },
+      { 都道府県: "北海道", 住所: "札幌市中央区" },
+      { 都道府県: "東京都", 住所: "新宿区西新宿２－８－１" },
+    ]
+    const batches: string[][] = []
+
+    const job = geocodeRows(
+      rows,
+      forwardSettings,
+      createAddressLookup(slowProvider),
+      createQueueRunner({ concurrency: 1, requestsPerSecond: 0 }),
+      (batch) => batches.push(batch.map((row) => String(row.住所)))
+    )
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    // The third row shares the first one's address but waits for the row before it
+    expect(batches).toEqual([["新宿区西新宿2-8-1"]])
+
+    release()
+    const { geocodedRows } = await job
+    expect(batches).toEqual([["新宿区西新宿2-8-1"], ["札幌市中央区", "新宿区西新宿２－８－１"]])
+    expect(geocodedRows).toEqual([])
+  })
+})
+
+describe("lookup failures", () => {
+  const retry: RetryOptions = { retries: 2, retryDelayMs: 0, timeoutMs: 0 }
+  const httpError = (status?: number) =>
+    Object.assign(new Error(status ? `Request failed with status code ${status}` : "Network Error"), {
+      isAxiosError: true,
+      response: status ? { status } : undefined,
+    })
+
+  // Throws the given errors on the first calls, then answers from a fixed table
+  const createFlakyProvider = (errors: unknown[], results: Record<string, GeocoderResult> = {}) => {
+    const calls: string[] = []
+    const provider: GeocodingProvider = {
+      id: "mock",
+      namespace: "flaky",
+      load: () => Promise.resolve(),
+      geocode: async (address) => {
+        calls.push(address)
+        if (calls.length <= errors.length) throw errors[calls.length - 1]
+        return results[address] ?? null
+      },
+    }
+    return { provider, calls }
+  }
+
+  const rows: GeocodedRow[] = [{ 都道府県: "東京都", 住所: "新宿区西新宿2-8-1" }]
+
+  it("retries network errors and server errors until the provider answers", async () => {
+    const { provider, calls } = createFlakyProvider([httpError(), httpError(503)], { 東京都新宿区西新宿2: TOKYO })
+
+    const { geocodedRows } = await geocodeRows(
+      [{ 都道府県: "東京都", 住所: "新宿区西新宿2" }],
+      forwardSettings,
+      createAddressLookup(provider, undefined, retry),
+      runQueue
+    )
+
+    expect(calls).toHaveLength(3)
+    expect(geocodedRows[0].geocoding_status).toBe("成功")
+  })
+
+  it("reports the cause once the retries run out, without caching it", async () => {
+    const store = new Map<string, unknown>()
+    const cache: LookupCache = {
+      get: async <T>(namespace: string, key: string) => store.get(`${namespace}|${key}`) as T | undefined,
+      put: async (namespace, key, result) => {
+        store.set(`${namespace}|${key}`, result)
+      },
+    }
+    const network = createFlakyProvider([httpError(429), httpError(502), httpError(500)])
+    const client = createFlakyProvider([httpError(400)])
+
+    const [failed] = (
+      await geocodeRows(rows, forwardSettings, createAddressLookup(network.provider, cache, retry), runQueue)
+    ).geocodedRows
+    const [rejected] = (await geocodeRows(rows, forwardSettings, createAddressLookup(client.provider, cache, retry), runQueue))
+      .geocodedRows
+
+    expect(network.calls).toHaveLength(3)
+    expect(failed).toMatchObject({
+      geocoding_status: "通信エラー",
+      error_message: "Request failed with status code 500（3 回試行）",
+    })
+    // Client errors are not retried
+    expect(client.calls).toHaveLength(1)
+    expect(rejected).toMatchObject({ geocoding_status: "エラー", error_message: "Request failed with status code 400" })
+    expect(store.size).toBe(0)
+  })
+
+  it("gives up on a lookup that exceeds the time limit", async () => {
+    const provider: GeocodingProvider = {
+      id: "mock",
+      namespace: "slow",
+      load: () => Promise.resolve(),
+      geocode: () => new Promise(() => undefined),
+    }
+
+    const { geocodedRows } = await geocodeRows(
+      rows,
+      forwardSettings,
+      createAddressLookup(provider, undefined, { retries: 1, retryDelayMs: 0, timeoutMs: 5 }),
+      runQueue
+    )
+
+    expect(geocodedRows[0].geocoding_status).toBe("タイムアウト")
+    expect(geocodedRows[0].error_message).toMatch(/2 回試行/)
+  })
+
+  it("falls back to coarser addresses and records the level that matched", async () => {
+    const { provider, calls } = createFlakyProvider([], {
+      "東京都新宿区西新宿2-8-1": TOKYO,
+      東京都新宿区西新宿: { ...TOKYO, town: "西新宿", addr: "" },
+    })
+    const fallbackRows: GeocodedRow[] = [
+      { 都道府県: "東京都", 住所: "新宿区西新宿2-8-1" },
+      { 都道府県: "東京都", 住所: "新宿区西新宿2-8-1 都庁ビル" },
+      { 都道府県: "東京都", 住所: "新宿区西新宿2-8-3" },
+      { 都道府県: "沖縄県", 住所: "存在しない町" },
+    ]
+
+    const { geocodedRows } = await geocodeRows(
+      fallbackRows,
+      { ...forwardSettings, normalizationRules: [], fallback: true },
+      createAddressLookup(provider, undefined, retry),
+      runQueue
+    )
+
+    expect(geocodedRows.map((row) => row.geocoding_status)).toEqual(["成功", "成功", "成功", "失敗"])
+    expect(geocodedRows.map((row) => row.fallback_level)).toEqual([0, 1, 2, undefined])
+    expect(geocodedRows.map((row) => row.fallback_address)).toEqual([
+      undefined,
+      "東京都新宿区西新宿2-8-1",
+      "東京都新宿区西新宿",
+      undefined,
+    ])
+    // Addresses that no step changes are not looked up again
+    expect(calls.filter((address) => address === "沖縄県存在しない町")).toHaveLength(1)
+  })
+
+  it("leaves the fallback columns out unless fallback is enabled", async () => {
+    const { provider } = createFlakyProvider([])
+
+    const { geocodedRows } = await geocodeRows(rows, forwardSettings, createAddressLookup(provider), runQueue)
+
+    expect(geocodedRows[0]).not.toHaveProperty("fallback_level")
+  })
+})
+
+describe("addMunicipalityCode", () => {
+  it("adds code columns and flags geocoded rows that do not resolve", async () => {
+    const { provider } = createStubProvider()
+    const rows: GeocodedRow[] = [
+      { 都道府県: "東京都", 住所: "新宿区西新宿2-8-1" },
+      { 都道府県: "北海道", 住所: "札幌市中央区北1条西2丁目" },
+      { 都道府県: "東京都", 住所: "どこか" },
+    ]
+
+    const { geocodedRows } = await geocodeRows(rows, forwardSettings, createAddressLookup(provider), runQueue)
+
+    expect(geocodedRows[0]).toMatchObject({
+      pref_code: "13",
+      municipality_code: "13104",
+      municipality_code6: "131041",
+      municipality_code_unresolved: "no",
+    })
+    expect(geocodedRows[1].municipality_code).toBe("01101")
+    // A failed row has no names to resolve
+    expect(geocodedRows[2]).toMatchObject({ municipality_code: "", municipality_code_unresolved: "" })
+    expect(addMunicipalityCode({ ...geocodedRows[0], normalized_city: "新宿町" }, "forward")).toMatchObject({
+      municipality_code: "",
+      municipality_code_unresolved: "yes",
+    })
+  })
+})
+
+describe("reverseGeocodeRows", () => {
+  it("skips invalid coordinates and looks up the rest", async () => {
+    const { provider, calls } = createStubProvider()
+    const rows: GeocodedRow[] = [
+      { lat: "34.7025", lng: "135.4959" },
+      { lat: "abc", lng: "135" },
+      { lat: "", lng: "" },
+      { lat: "10", lng: "10" },
+    ]
+
+    const { geocodedRows } = await reverseGeocodeRows(
+      rows,
+      coordinateColumns,
+      createCoordinateLookup(provider),
+      runQueue
+    )
+
+    expect(geocodedRows.map((row) => row.geocoding_status)).toEqual(["成功", "スキップ", "スキップ", "失敗"])
+    expect(geocodedRows[0]).toMatchObject({ reverse_pref: "大阪府", reverse_city: "大阪市北区" })
+    expect(geocodedRows[1].error_message).toBe("座標の形式が不正です")
+    expect(calls).toEqual(["34.7025,135.4959", "10,10"])
+  })
+})
+
+describe("export", () => {
+  const geocoded: GeocodedRow[] = [
+    { 住所: "東京都新宿区西新宿2-8-1", latitude: TOKYO.lat, longitude: TOKYO.lng, geocoding_status: "成功" },
+    { 住所: "不明", latitude: undefined, longitude: undefined, geocoding_status: "失敗" },
+  ]
+
+  it("combines latitude and longitude into one column on request", () => {
+    expect(buildExportRows(geocoded, "forward", "combined")).toEqual([
+      { 住所: "東京都新宿区西新宿2-8-1", geocoding_status: "成功", lat_lon: `${TOKYO.lat},${TOKYO.lng}` },
+      { 住所: "不明", geocoding_status: "失敗", lat_lon: "" },
+    ])
+  })
+
+  it("writes CSV in the chosen encoding", async () => {
+    const header = "住所,latitude,longitude,geocoding_status\r\n"
+    const utf8 = await exportRows(geocoded, exportOptions({ outputEncoding: "utf-8-bom" }))
+    expect(await blobTextWithBom(utf8)).toMatch(new RegExp(`^\uFEFF${header}`))
+
+    const sjis = await exportRows(geocoded, exportOptions({ outputEncoding: "shift_jis" }))
+    const decoded = new TextDecoder("shift_jis").decode(await new Blob([sjis]).arrayBuffer())
+    expect(decoded.startsWith(header)).toBe(true)
+  })
+
+  it("writes large CSV exports in chunks with a single header and byte order mark", async () => {
+    const rows: GeocodedRow[] = Array.from({ length: 10001 }, (_, i) => ({ id: String(i), geocoding_status: "成功" }))
+
+    const lines = (await blobTextWithBom(await exportRows(rows, exportOptions({ outputEncoding: "utf-8-bom" })))).split(
+      "\r\n"
+    )
+
+    expect(lines).toHaveLength(10002)
+    expect(lines[0]).toBe("\uFEFFid,geocoding_status")
+    expect(lines.slice(1).some((line) => line.includes("\uFEFF") || line.startsWith("id,"))).toBe(false)
+    expect(lines[10001]).toBe("10000,成功")
+  })
+
+  it("writes GeoJSON features only for rows with coordinates unless asked otherwise", async () => {
+    const parse = async (includeMissing: boolean) =>
+      JSON.parse(await blobText(await exportRows(geocoded, exportOptions({ format: "geojson", includeMissing }))))
+
+    const collection = await parse(false)
+    expect(collection.features).toHaveLength(1)
+    expect(collection.features[0].geometry.coordinates).toEqual([TOKYO.lng, TOKYO.lat])
+    expect((await parse(true)).features[1].geometry).toBeNull()
+  })
+})
+
+describe("export with an output schema", () => {
+  const sourceRows: GeocodedRow[] = [
+    {
+      id: "1",
+      住所: "新宿区西新宿2-8-1",
+      備考: "本庁舎",
+      latitude: 35.6895014,
+      longitude: 139.6917337,
+      geocoding_status: "成功",
+      error_message: undefined,
+    },
+    { id: "2", 住所: "", 備考: "", latitude: undefined, longitude: undefined, geocoding_status: "スキップ" },
+  ]
+  const schema: OutputSchema = {
+    columnNames: { latitude: "lat", longitude: "lng", geocoding_status: "" },
+    precision: 4,
+    placement: "after_address",
+    statusLabels: "en",
+  }
+
+  it("applies the output schema: renames, rounds, relabels and moves the generated columns", async () => {
+    const csv = await blobText(
+      await exportRows(
+        sourceRows,
+        exportOptions({
+          outputSchema: schema,
+          outputLayout: { sourceColumns: ["id", "住所", "備考"], addressColumns: ["住所"] },
+        })
+      )
+    )
+
+    expect(csv.split("\r\n")).toEqual([
+      "id,住所,lat,lng,geocoding_status,error_message,備考",
+      "1,新宿区西新宿2-8-1,35.6895,139.6917,ok,,本庁舎",
+      "2,,,,empty,,",
+    ])
+  })
+})
+
+describe("readSource", () => {
+  it("detects a Shift_JIS file when the encoding is auto", async () => {
+    const text = "住所,メモ\r\n東京都新宿区西新宿2-8-1,都庁\r\n"
+    const bytes = new Uint8Array(Encoding.convert(Encoding.stringToCode(text), { to: "SJIS", from: "UNICODE" }))
+    const file = new File([bytes], "input.csv")
+
+    const table = await readSource(file, { encoding: "auto", delimiter: "", headerRow: 1 })
+
+    expect(table.columns).toEqual(["住所", "メモ"])
+    expect(table.rows).toEqual([{ 住所: "東京都新宿区西新宿2-8-1", メモ: "都庁" }])
+  })
+})
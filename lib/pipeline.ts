@@ -0,0 +1,728 @@
+import Papa from "papaparse"
+import { GEOCODED_ROLES, roleColumn, type AddressMapping } from "@/lib/address-mapping"
+import {
+  normalizeAddress,
+  stripBlockNumbers,
+  stripBuilding,
+  type NormalizationRuleId,
+} from "@/lib/address-normalizer"
+import {
+  COORDINATE_ERROR_MESSAGES,
+  coordinateKey,
+  parseCombinedCoordinates,
+  parseCoordinates,
+  type CoordinateParseResult,
+} from "@/lib/coordinates"
+import { detectEncoding, encodeText, type OutputEncoding } from "@/lib/encoding"
+import type { ExportFormat, ExportRow } from "@/lib/export-formats"
+import { toGeoJSON, toGPX, toKML } from "@/lib/geo-export"
+import { deriveColumns, type DerivedColumnOptions } from "@/lib/grid-coordinates"
+import { normalizeCacheKey } from "@/lib/geocode-cache"
+import type { GeocoderResult, GeocodingMode, GeocodingProvider, ReverseGeocoderResult } from "@/lib/geocoders"
+import { createJobRunner, type JobRunnerOptions } from "@/lib/job-runner"
+import {
+  DEFAULT_RETRY_OPTIONS,
+  withRetry,
+  type LookupErrorKind,
+  type LookupFailure,
+  type RetryOptions,
+} from "@/lib/lookup-retry"
+import { municipalityCode, withCheckDigit } from "@/lib/municipalities"
+import { applyOutputSchema, outputColumnName, type OutputLayout, type OutputSchema } from "@/lib/output-schema"
+import { prefectureCode, prefecturesForPostalCode } from "@/lib/prefectures"
+import { readSourceTable, type SourceOptions } from "@/lib/source-file"
+import { buildWorkbook } from "@/lib/spreadsheet"
+
+/*
+ * The conversion pipeline shared by the web page and the CLI: read a source
+ * table, build addresses, geocode them and turn the rows into an export file.
+ * Nothing here depends on React or on browser-only storage.
+ */
+
+export interface GeocodedRow {
+  [key: string]: string | number | undefined
+  normalized_address?: string
+  latitude?: number
+  longitude?: number
+  geocoding_level?: number
+  normalized_pref?: string
+  normalized_city?: string
+  normalized_town?: string
+  normalized_addr?: string
+  reverse_pref?: string
+  reverse_city?: string
+  reverse_town?: string
+  reverse_address?: string
+  from_cache?: string
+  geocoding_status?: string
+  error_message?: string
+}
+
+// Match levels reported by the community geocoder (higher is more precise)
+export const MATCH_LEVEL_LABELS: Record<number, string> = {
+  0: "判定不可",
+  1: "都道府県",
+  2: "市区町村",
+  3: "町丁目",
+}
+
+export const formatMatchLevel = (level: number | undefined) =>
+  typeof level === "number" ? `${level} (${MATCH_LEVEL_LABELS[level] ?? "不明"})` : "-"
+
+// Statuses of lookups that failed before the provider could judge the address; "失敗" means no match
+const FAILURE_STATUSES: Record<LookupErrorKind, string> = {
+  network: "通信エラー",
+  timeout: "タイムアウト",
+  error: "エラー",
+}
+
+/** Every status of a row that got no result although it had something to look up */
+export const FAILED_STATUSES = ["失敗", ...Object.values(FAILURE_STATUSES)]
+
+const failedResult = (failure: LookupFailure | undefined) =>
+  failure
+    ? {
+        geocoding_status: FAILURE_STATUSES[failure.kind],
+        error_message: failure.attempts > 1 ? `${failure.message}（${failure.attempts} 回試行）` : failure.message,
+      }
+    : { geocoding_status: "失敗", error_message: "結果が見つかりません" }
+
+// Every row carries all output keys so the CSV header does not depend on the first row
+const EMPTY_RESULT: GeocodedRow = {
+  latitude: undefined,
+  longitude: undefined,
+  geocoding_level: undefined,
+  normalized_pref: undefined,
+  normalized_city: undefined,
+  normalized_town: undefined,
+  normalized_addr: undefined,
+  from_cache: undefined,
+}
+
+const EMPTY_REVERSE_RESULT: GeocodedRow = {
+  reverse_pref: undefined,
+  reverse_city: undefined,
+  reverse_town: undefined,
+  reverse_address: undefined,
+  from_cache: undefined,
+}
+
+export interface AddressLookup {
+  result: GeocoderResult | null
+  fromCache: boolean
+  // Set when the provider failed, as opposed to answering that nothing matched
+  failure?: LookupFailure
+}
+
+export interface ReverseLookup {
+  result: ReverseGeocoderResult | null
+  fromCache: boolean
+  failure?: LookupFailure
+}
+
+/** Result store consulted before the provider; the web page backs it with IndexedDB */
+export interface LookupCache {
+  get: <T>(namespace: string, key: string) => Promise<T | undefined>
+  put: <T>(namespace: string, key: string, result: T) => Promise<void>
+}
+
+/**
+ * A lookup by key. `cached`, present when the lookup has a cache, answers
+ * from the cache alone, so that a queue can settle hits up front instead of
+ * making them wait for a rate-limit slot.
+ */
+export interface Lookup<T> {
+  (key: string): Promise<T>
+  cached?: (key: string) => Promise<T | undefined>
+}
+
+const readCache = async <T>(cache: LookupCache, namespace: string, key: string) => {
+  // A broken cache (e.g. private browsing without IndexedDB) must not stop geocoding
+  const cached = await cache.get<T>(namespace, key).catch(() => undefined)
+  return cached ? { result: cached, fromCache: true } : undefined
+}
+
+// Checks the cache before calling the provider; only matches are written back
+const cachedLookup = async <T>(
+  cache: LookupCache | undefined,
+  namespace: string,
+  key: string,
+  fetch: () => Promise<T | null>,
+  retry: RetryOptions
+) => {
+  const cached = cache && (await readCache<T>(cache, namespace, key))
+  if (cached) return cached
+
+  const outcome = await withRetry(fetch, retry)
+  if (outcome.failure) return { result: null, fromCache: false, failure: outcome.failure }
+  const result = outcome.value
+  if (result && cache) {
+    await cache.put(namespace, key, result).catch(() => undefined)
+  }
+  return { result, fromCache: false }
+}
+
+/** Geocodes one address; network errors and timeouts are retried before they are reported */
+export const createAddressLookup = (
+  provider: GeocodingProvider,
+  cache?: LookupCache,
+  retry: RetryOptions = DEFAULT_RETRY_OPTIONS
+) => {
+  const lookup: Lookup<AddressLookup> = (address) =>
+    cachedLookup(cache, provider.namespace, address, () => provider.geocode(address), retry)
+  if (cache) lookup.cached = (address) => readCache<GeocoderResult>(cache, provider.namespace, address)
+  return lookup
+}
+
+/** Reverse geocodes a `coordinateKey` */
+export const createCoordinateLookup = (
+  provider: GeocodingProvider,
+  cache?: LookupCache,
+  retry: RetryOptions = DEFAULT_RETRY_OPTIONS
+) => {
+  const namespace = `${provider.namespace}:reverse`
+  const lookup: Lookup<ReverseLookup> = (key) =>
+    cachedLookup(
+      cache,
+      namespace,
+      key,
+      async () => {
+        const [lat, lng] = key.split(",").map(Number)
+        return (await provider.reverseGeocode?.(lat, lng)) ?? null
+      },
+      retry
+    )
+  if (cache) lookup.cached = (key) => readCache<ReverseGeocoderResult>(cache, namespace, key)
+  return lookup
+}
+
+/** Reads a source file; an encoding of "auto" is detected from the file itself */
+export const readSource = async (file: File, options: SourceOptions) =>
+  readSourceTable(
+    file,
+    options.encoding === "auto" ? { ...options, encoding: (await detectEncoding(file)).encoding } : options
+  )
+
+// 役割を割り当てた列の値を並び順に結合して住所を作成（郵便番号・建物名は除く）
+export const buildAddress = (row: GeocodedRow, mapping: AddressMapping) =>
+  mapping
+    .filter((part) => part.column && GEOCODED_ROLES.includes(part.role))
+    .map((part) => ({ separator: part.separator, value: row[part.column] ? String(row[part.column]).trim() : "" }))
+    .filter(({ value }) => value.length > 0)
+    .map(({ separator, value }, i) => (i === 0 ? value : `${separator}${value}`))
+    .join("")
+
+/**
+ * Compares the prefecture of the postal code column with the geocoded one.
+ * `postal_pref_mismatch` is "yes" or "no", or "" when either side is unknown.
+ */
+export const checkPostalCode = (row: GeocodedRow, mapping: AddressMapping): GeocodedRow => {
+  const column = roleColumn(mapping, "postalCode")
+  if (!column) return row
+  const expected = prefecturesForPostalCode(String(row[column] ?? ""))
+  const geocoded = row.normalized_pref
+  return {
+    ...row,
+    postal_pref: expected.join("/"),
+    postal_pref_mismatch: expected.length > 0 && geocoded ? (expected.includes(geocoded) ? "no" : "yes") : "",
+  }
+}
+
+// Statuses whose rows carry geocoded names worth coding
+const NAMED_STATUSES = ["成功", "低精度"]
+
+/**
+ * Adds the local government codes of the row's prefecture and municipality.
+ * `municipality_code_unresolved` is "yes" when a geocoded row names no
+ * municipality the code table knows, and "" for rows without a result.
+ */
+export const addMunicipalityCode = (row: GeocodedRow, mode: GeocodingMode): GeocodedRow => {
+  const pref = String((mode === "reverse" ? row.reverse_pref : row.normalized_pref) ?? "")
+  const city = String((mode === "reverse" ? row.reverse_city : row.normalized_city) ?? "")
+  const code = municipalityCode(pref, city)
+  const named = NAMED_STATUSES.includes(String(row.geocoding_status))
+  return {
+    ...row,
+    pref_code: prefectureCode(pref),
+    municipality_code: code,
+    municipality_code6: code && withCheckDigit(code),
+    municipality_code_unresolved: named ? (code ? "no" : "yes") : "",
+  }
+}
+
+export interface CoordinateColumns {
+  coordinateInput: "separate" | "combined"
+  latColumn: string
+  lngColumn: string
+  latLonColumn: string
+}
+
+export const parseRowCoordinates = (row: GeocodedRow, columns: CoordinateColumns) =>
+  columns.coordinateInput === "combined"
+    ? parseCombinedCoordinates(row[columns.latLonColumn])
+    : parseCoordinates(row[columns.latColumn], row[columns.lngColumn])
+
+// Forward results carry their own coordinates; reverse results keep them in the input columns
+export const rowCoordinates = (row: ExportRow, mode: GeocodingMode, columns: CoordinateColumns) => {
+  if (mode === "reverse") {
+    const parsed = parseRowCoordinates(row, columns)
+    return parsed.ok ? { lat: parsed.lat, lng: parsed.lng } : null
+  }
+  return typeof row.latitude === "number" && typeof row.longitude === "number"
+    ? { lat: row.latitude, lng: row.longitude }
+    : null
+}
+
+export const toGeocodedRow = (
+  row: GeocodedRow,
+  address: string,
+  lookup: AddressLookup | undefined,
+  minMatchLevel: number
+): GeocodedRow => {
+  row = { ...row, normalized_address: address }
+
+  if (!address) {
+    return {
+      ...row,
+      ...EMPTY_RESULT,
+      geocoding_status: "スキップ",
+      error_message: "住所が空です",
+    }
+  }
+
+  if (!lookup) {
+    return {
+      ...row,
+      ...EMPTY_RESULT,
+      geocoding_status: "未処理",
+      error_message: "キャンセルされたため処理されていません",
+    }
+  }
+
+  const { result, fromCache } = lookup
+  if (!result) {
+    return { ...row, ...EMPTY_RESULT, from_cache: "no", ...failedResult(lookup.failure) }
+  }
+
+  const isCoarse = result.level < minMatchLevel
+  return {
+    ...row,
+    latitude: result.lat,
+    longitude: result.lng,
+    geocoding_level: result.level,
+    normalized_pref: result.pref,
+    normalized_city: result.city,
+    normalized_town: result.town,
+    normalized_addr: result.addr,
+    from_cache: fromCache ? "yes" : "no",
+    geocoding_status: isCoarse ? "低精度" : "成功",
+    error_message: isCoarse ? `一致レベルが基準未満です（${formatMatchLevel(result.level)}）` : undefined,
+  }
+}
+
+export const toReverseGeocodedRow = (
+  row: GeocodedRow,
+  coordinates: CoordinateParseResult,
+  lookup: ReverseLookup | undefined
+): GeocodedRow => {
+  if (!coordinates.ok) {
+    return {
+      ...row,
+      ...EMPTY_REVERSE_RESULT,
+      geocoding_status: "スキップ",
+      error_message: COORDINATE_ERROR_MESSAGES[coordinates.reason],
+    }
+  }
+
+  if (!lookup) {
+    return {
+      ...row,
+      ...EMPTY_REVERSE_RESULT,
+      geocoding_status: "未処理",
+      error_message: "キャンセルされたため処理されていません",
+    }
+  }
+
+  const { result, fromCache } = lookup
+  if (!result) {
+    return { ...row, ...EMPTY_REVERSE_RESULT, from_cache: "no", ...failedResult(lookup.failure) }
+  }
+
+  return {
+    ...row,
+    reverse_pref: result.pref,
+    reverse_city: result.city,
+    reverse_town: result.town,
+    reverse_address: result.address,
+    from_cache: fromCache ? "yes" : "no",
+    geocoding_status: "成功",
+    error_message: undefined,
+  }
+}
+
+/**
+ * Looks up every key of a deduplicated queue. Keys missing from `lookups`
+ * were never reached, e.g. because the job was cancelled. Keys the lookup's
+ * cache answers are settled before the queue starts and take no rate-limit
+ * slot. `onLookup` hears of each result as soon as it is known, restored
+ * and cached ones included. `level` tells the
+ * queues of one job apart: 0 for the first lookups, otherwise the fallback
+ * level the queue retries at.
+ */
+export type LookupQueueRunner = <T>(
+  queue: string[],
+  lookup: Lookup<T>,
+  onLookup?: (key: string, result: T) => void,
+  level?: number
+) => Promise<{ lookups: Map<string, T>; cancelled: boolean }>
+
+// Cache reads in flight at once while settling a queue's cache hits
+const CACHE_READ_BATCH_SIZE = 100
+
+/** The cached result of each key, undefined for misses or when the lookup has no cache */
+export const readCachedLookups = async <T>(keys: string[], lookup: Lookup<T>) => {
+  const hits: (T | undefined)[] = new Array(keys.length)
+  const { cached } = lookup
+  if (!cached) return hits
+  for (let start = 0; start < keys.length; start += CACHE_READ_BATCH_SIZE) {
+    const batch = keys.slice(start, start + CACHE_READ_BATCH_SIZE)
+    const results = await Promise.all(batch.map((key) => cached(key).catch(() => undefined)))
+    results.forEach((result, i) => {
+      hits[start + i] = result
+    })
+  }
+  return hits
+}
+
+/** Queue runner without checkpoints, for one-off jobs such as the CLI */
+export const createQueueRunner =
+  ({ onProgress, ...options }: JobRunnerOptions): LookupQueueRunner =>
+  async <T>(queue: string[], lookup: Lookup<T>, onLookup?: (key: string, result: T) => void) => {
+    const lookups = new Map<string, T>()
+    const hits = await readCachedLookups(queue, lookup)
+    hits.forEach((hit, i) => {
+      if (hit === undefined) return
+      lookups.set(queue[i], hit)
+      onLookup?.(queue[i], hit)
+    })
+
+    const cachedCount = lookups.size
+    const remaining = queue.filter((key) => !lookups.has(key))
+    const task = async (key: string) => {
+      const result = await lookup(key)
+      onLookup?.(key, result)
+      return result
+    }
+    const job = await createJobRunner(remaining, task, {
+      ...options,
+      onProgress:
+        onProgress && ((p) => onProgress({ ...p, processed: p.processed + cachedCount, total: queue.length })),
+    }).start()
+    remaining.forEach((key, i) => {
+      if (job.completed[i]) lookups.set(key, job.results[i] as T)
+    })
+    return { lookups, cancelled: job.cancelled }
+  }
+
+/** Receives finished rows in source order, batch by batch, while a job runs */
+export type RowSink = (rows: GeocodedRow[]) => void
+
+/**
+ * Hands rows to `onRows` in source order as soon as a row and every row
+ * before it are final, so that they can be passed on while the queue is
+ * still running. `build` returns null for a row that may still change.
+ * Without a sink the rows are collected in `rows`.
+ */
+const createRowEmitter = (count: number, build: (index: number) => GeocodedRow | null, onRows?: RowSink) => {
+  const rows: GeocodedRow[] = []
+  let cursor = 0
+  return {
+    rows,
+    advance: () => {
+      const ready: GeocodedRow[] = []
+      while (cursor < count) {
+        const row = build(cursor)
+        if (!row) break
+        ready.push(row)
+        cursor++
+      }
+      if (ready.length === 0) return
+      if (onRows) onRows(ready)
+      else ready.forEach((row) => rows.push(row))
+    },
+  }
+}
+
+export interface ForwardSettings {
+  addressMapping: AddressMapping
+  normalizationRules: NormalizationRuleId[]
+  minMatchLevel: number
+  // Look unmatched addresses up again without the building, then without block numbers
+  fallback?: boolean
+}
+
+// Coarser forms tried in turn for addresses without a match; a step's position is its fallback level
+export const FALLBACK_STEPS: { label: string; coarsen: (address: string) => string }[] = [
+  { label: "建物名を除外", coarsen: stripBuilding },
+  { label: "番地を除外", coarsen: stripBlockNumbers },
+]
+
+interface AddressMatch {
+  // The form of the address that was looked up last
+  query: string
+  level: number
+  lookup: AddressLookup | undefined
+}
+
+/**
+ * Geocodes rows by the given addresses. Identical addresses are geocoded once
+ * and fanned back out to every matching row. With `fallback`, addresses the
+ * provider found nothing for are looked up again in coarser forms, one queue
+ * per step, and the rows record the step that matched. Given `onRows`, the
+ * finished rows go there while the job runs and `geocodedRows` stays empty.
+ */
+export const geocodeAddresses = async (
+  rows: GeocodedRow[],
+  addresses: string[],
+  { minMatchLevel, fallback = false }: Pick<ForwardSettings, "minMatchLevel" | "fallback">,
+  lookupAddress: Lookup<AddressLookup>,
+  runQueue: LookupQueueRunner,
+  onRows?: RowSink
+) => {
+  const lookupAll = (queries: string[], level: number, onLookup?: (key: string, lookup: AddressLookup) => void) => {
+    const uniqueAddresses = new Map<string, string>()
+    queries.forEach((address) => {
+      const key = normalizeCacheKey(address)
+      if (key && !uniqueAddresses.has(key)) uniqueAddresses.set(key, address)
+    })
+    const queue = Array.from(uniqueAddresses.keys())
+    const address = (key: string) => uniqueAddresses.get(key) as string
+    const lookup: Lookup<AddressLookup> = (key) => lookupAddress(address(key))
+    const { cached } = lookupAddress
+    if (cached) lookup.cached = (key) => cached(address(key))
+    return runQueue(queue, lookup, onLookup, level)
+  }
+
+  // Rows whose address the runner never reached are marked as unprocessed
+  const toRow = (i: number, { query, level, lookup }: AddressMatch) => {
+    const geocoded = toGeocodedRow(rows[i], addresses[i], lookup, minMatchLevel)
+    const withFallback = fallback
+      ? {
+          ...geocoded,
+          fallback_level: lookup?.result ? level : undefined,
+          fallback_address: lookup?.result && level > 0 ? query : undefined,
+        }
+      : geocoded
+    return addMunicipalityCode(withFallback, "forward")
+  }
+
+  const keys = addresses.map(normalizeCacheKey)
+  const found = new Map<string, AddressLookup>()
+  // Every row's match once the fallback passes are done
+  let settled: AddressMatch[] | null = null
+  // While the first queue runs, a row is final once its address is answered and no fallback can change it
+  const emitter = createRowEmitter(
+    rows.length,
+    (i) => {
+      if (settled) return toRow(i, settled[i])
+      const lookup = found.get(keys[i])
+      if (keys[i] && (!lookup || (fallback && !lookup.result && !lookup.failure))) return null
+      return toRow(i, { query: addresses[i], level: 0, lookup })
+    },
+    onRows
+  )
+
+  const { lookups, cancelled } = await lookupAll(addresses, 0, (key, lookup) => {
+    found.set(key, lookup)
+    emitter.advance()
+  })
+  found.clear()
+  const matches: AddressMatch[] = addresses.map((query, i) => ({ query, level: 0, lookup: lookups.get(keys[i]) }))
+  let stopped = cancelled
+  for (let level = 1; fallback && !stopped && level <= FALLBACK_STEPS.length; level++) {
+    // Failed lookups keep their cause instead of being retried in another form
+    const queries = matches.map(({ query, lookup }) => {
+      const coarser = lookup && !lookup.result && !lookup.failure ? FALLBACK_STEPS[level - 1].coarsen(query) : ""
+      return normalizeCacheKey(coarser) === normalizeCacheKey(query) ? "" : coarser
+    })
+    if (queries.every((query) => !query)) continue
+    const next = await lookupAll(queries, level)
+    stopped = next.cancelled
+    queries.forEach((query, i) => {
+      const lookup = next.lookups.get(normalizeCacheKey(query))
+      if (query && lookup) matches[i] = { query, level, lookup }
+    })
+  }
+
+  settled = matches
+  emitter.advance()
+  return { geocodedRows: emitter.rows, cancelled: stopped }
+}
+
+/** Geocodes rows by their mapped address columns; see `geocodeAddresses` for `onRows` */
+export const geocodeRows = async (
+  rows: GeocodedRow[],
+  { addressMapping, normalizationRules, ...settings }: ForwardSettings,
+  lookupAddress: Lookup<AddressLookup>,
+  runQueue: LookupQueueRunner,
+  onRows?: RowSink
+) => {
+  // The normalized address is what gets geocoded, cached and deduplicated
+  const addresses = rows.map((row) => normalizeAddress(buildAddress(row, addressMapping), normalizationRules))
+  const geocodedRows: GeocodedRow[] = []
+  const { cancelled } = await geocodeAddresses(rows, addresses, settings, lookupAddress, runQueue, (batch) => {
+    const checked = batch.map((row) => checkPostalCode(row, addressMapping))
+    if (onRows) onRows(checked)
+    else checked.forEach((row) => geocodedRows.push(row))
+  })
+  return { geocodedRows, cancelled }
+}
+
+/** Looks the rows up by their coordinates; like `geocodeAddresses`, `onRows` receives them while the job runs */
+export const reverseGeocodeRows = async (
+  rows: GeocodedRow[],
+  columns: CoordinateColumns,
+  lookupCoordinates: Lookup<ReverseLookup>,
+  runQueue: LookupQueueRunner,
+  onRows?: RowSink
+) => {
+  const coordinates = rows.map((row) => parseRowCoordinates(row, columns))
+  const keys = coordinates.map((parsed) => (parsed.ok ? coordinateKey(parsed.lat, parsed.lng) : ""))
+  const queue = Array.from(new Set(keys.filter((key) => key)))
+
+  const found = new Map<string, ReverseLookup>()
+  // All results once the queue has ended; rows whose key was never reached are then final too
+  let settled: Map<string, ReverseLookup> | null = null
+  const emitter = createRowEmitter(
+    rows.length,
+    (i) => {
+      const lookup = (settled ?? found).get(keys[i])
+      if (keys[i] && !lookup && !settled) return null
+      return addMunicipalityCode(toReverseGeocodedRow(rows[i], coordinates[i], lookup), "reverse")
+    },
+    onRows
+  )
+
+  const { lookups, cancelled } = await runQueue(queue, lookupCoordinates, (key, lookup) => {
+    found.set(key, lookup)
+    emitter.advance()
+  })
+  found.clear()
+  settled = lookups
+  emitter.advance()
+  return { geocodedRows: emitter.rows, cancelled }
+}
+
+export type CoordinateFormat = "separate" | "combined"
+
+export const buildExportRows = (rows: GeocodedRow[], mode: GeocodingMode, coordinateFormat: CoordinateFormat) => {
+  if (mode === "forward" && coordinateFormat === "combined") {
+    return rows.map((row) => {
+      const { latitude, longitude, ...rest } = row
+      return {
+        ...rest,
+        lat_lon: typeof latitude === "number" && typeof longitude === "number" ? `${latitude},${longitude}` : "",
+      }
+    })
+  }
+  return rows
+}
+
+export interface ExportOptions {
+  format: ExportFormat
+  mode: GeocodingMode
+  coordinateFormat: CoordinateFormat
+  coordinateColumns: CoordinateColumns
+  // Only applies to CSV / TSV; the other formats are always UTF-8 or binary
+  outputEncoding: OutputEncoding
+  // GeoJSON / KML: keep rows without coordinates as features without geometry
+  includeMissing: boolean
+  nameColumn?: string
+  descriptionColumn?: string
+  // KML document name
+  documentName: string
+  // Mesh codes and projected coordinates appended to every row
+  derivedColumns?: DerivedColumnOptions
+  // Names, precision, placement and status labels of the generated columns
+  outputSchema?: OutputSchema
+  outputLayout?: OutputLayout
+}
+
+/** Appends the chosen derived columns, computed from the position the row is mapped at */
+const withDerivedColumns = (rows: GeocodedRow[], options: ExportOptions) => {
+  const derived = options.derivedColumns
+  if (!derived || derived.columns.length === 0) return rows
+  return rows.map((row) => ({
+    ...row,
+    ...deriveColumns(
+      rowCoordinates(row, options.mode, options.coordinateColumns),
+      (options.mode === "reverse" ? row.reverse_pref : row.normalized_pref) ?? "",
+      derived
+    ),
+  }))
+}
+
+const withOutputSchema = (rows: ExportRow[], options: ExportOptions) =>
+  options.outputSchema ? applyOutputSchema(rows, options.outputSchema, options.outputLayout) : rows
+
+/** Serializes the rows into the chosen export format */
+export const exportRows = async (rows: GeocodedRow[], options: ExportOptions): Promise<BlobPart> => {
+  if (options.format === "xlsx") {
+    const exported = buildExportRows(withDerivedColumns(rows, options), options.mode, options.coordinateFormat)
+    const shaped = withOutputSchema(exported, options)
+    // The schema may have relabelled the status, so failures are picked from the rows before it
+    const failed = new Set(shaped.filter((_, i) => FAILED_STATUSES.includes(String(exported[i].geocoding_status))))
+    return buildWorkbook(shaped, { sheetName: "geocoded", highlight: (row) => failed.has(row) })
+  }
+  if (options.format === "csv" || options.format === "tsv") return toDelimitedBlob(rows, options)
+
+  // Geometry comes from the rows before the schema renamed or rounded their coordinates
+  const withDerived = withDerivedColumns(rows, options)
+  const shaped = withOutputSchema(withDerived, options)
+  const points = new Map(
+    shaped.map((row, i) => [row, rowCoordinates(withDerived[i], options.mode, options.coordinateColumns)])
+  )
+  const renamed = (column: string | undefined) =>
+    column && options.outputSchema ? outputColumnName(column, options.outputSchema) : column
+  const geoOptions = {
+    getCoordinates: (row: ExportRow) => points.get(row) ?? null,
+    includeMissing: options.includeMissing,
+    nameColumn: renamed(options.nameColumn),
+    descriptionColumn: renamed(options.descriptionColumn),
+  }
+  switch (options.format) {
+    case "geojson":
+      return toGeoJSON(shaped, geoOptions)
+    case "kml":
+      return toKML(shaped, geoOptions, options.documentName)
+    case "gpx":
+      return toGPX(shaped, geoOptions)
+  }
+}
+
+// Rows per CSV / TSV chunk, so that a large export is never held as one string
+const EXPORT_CHUNK_ROWS = 10000
+
+/**
+ * Writes CSV / TSV in chunks and lets the Blob join them, so the export rows,
+ * the text and the encoded bytes only ever exist for one chunk at a time.
+ */
+const toDelimitedBlob = (rows: GeocodedRow[], options: ExportOptions) => {
+  const delimiter = options.format === "tsv" ? "\t" : ","
+  const exportChunk = (start: number, end: number) =>
+    withOutputSchema(
+      buildExportRows(withDerivedColumns(rows.slice(start, end), options), options.mode, options.coordinateFormat),
+      options
+    )
+  // Papa Parse takes the columns from the first row; every chunk uses the same ones
+  const columns = rows.length > 0 ? Object.keys(exportChunk(0, 1)[0]) : []
+  // Only the first chunk carries the byte order mark
+  const chunkEncoding: OutputEncoding = options.outputEncoding === "utf-8-bom" ? "utf-8" : options.outputEncoding
+
+  const parts: BlobPart[] = [encodeText("", options.outputEncoding)]
+  for (let start = 0; start < rows.length; start += EXPORT_CHUNK_ROWS) {
+    const text = Papa.unparse(exportChunk(start, start + EXPORT_CHUNK_ROWS), { delimiter, columns, header: start === 0 })
+    parts.push(encodeText(start === 0 ? text : `\r\n${text}`, chunkEncoding))
+  }
+  return new Blob(parts)
+}
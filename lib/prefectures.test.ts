@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest"
+import { prefecturesForPostalCode } from "@/lib/prefectures"
+
+describe("prefecturesForPostalCode", () => {
+  it("reads the zone from full-width, marked or unhyphenated codes", () => {
+    expect(prefecturesForPostalCode("160-0023")).toEqual(["東京都"])
+    expect(prefecturesForPostalCode("〒１６０－００２３")).toEqual(["東京都"])
+    expect(prefecturesForPostalCode("0600001")).toEqual(["北海道"])
+    expect(prefecturesForPostalCode("160-002")).toEqual([])
+  })
+
+  it("lists every prefecture of a zone that crosses a border", () => {
+    // 島本町, 大阪府
+    expect(prefecturesForPostalCode("618-0011")).toEqual(["京都府", "大阪府"])
+    // 吉富町 and 上毛町, 福岡県
+    expect(prefecturesForPostalCode("871-0811")).toEqual(["大分県", "福岡県"])
+    expect(prefecturesForPostalCode("871-0901")).toEqual(["大分県", "福岡県"])
+    // 木曽岬町, 三重県
+    expect(prefecturesForPostalCode("498-0801")).toEqual(["愛知県", "三重県"])
+  })
+
+  it("puts outlying islands under their own prefecture", () => {
+    // 西ノ島町 and 隠岐の島町, 島根県
+    expect(prefecturesForPostalCode("684-0303")).toEqual(["鳥取県", "島根県"])
+    expect(prefecturesForPostalCode("685-0013")).toEqual(["島根県"])
+    // 壱岐市 and 対馬市, 長崎県
+    expect(prefecturesForPostalCode("811-5133")).toEqual(["福岡県", "長崎県"])
+    expect(prefecturesForPostalCode("817-0021")).toEqual(["長崎県"])
+  })
+})
@@ -0,0 +1,140 @@
+// 都道府県コード（JIS X 0401）順
+export const PREFECTURES = [
+  "北海道",
+  "青森県",
+  "岩手県",
+  "宮城県",
+  "秋田県",
+  "山形県",
+  "福島県",
+  "茨城県",
+  "栃木県",
+  "群馬県",
+  "埼玉県",
+  "千葉県",
+  "東京都",
+  "神奈川県",
+  "新潟県",
+  "富山県",
+  "石川県",
+  "福井県",
+  "山梨県",
+  "長野県",
+  "岐阜県",
+  "静岡県",
+  "愛知県",
+  "三重県",
+  "滋賀県",
+  "京都府",
+  "大阪府",
+  "兵庫県",
+  "奈良県",
+  "和歌山県",
+  "鳥取県",
+  "島根県",
+  "岡山県",
+  "広島県",
+  "山口県",
+  "徳島県",
+  "香川県",
+  "愛媛県",
+  "高知県",
+  "福岡県",
+  "佐賀県",
+  "長崎県",
+  "熊本県",
+  "大分県",
+  "宮崎県",
+  "鹿児島県",
+  "沖縄県",
+]
+
+/** Returns the prefecture name for a two-digit code ("13" → "東京都") */
+export const prefectureFromCode = (code: string) => PREFECTURES[Number(code) - 1] ?? ""
+
+/** Returns the two-digit code for a prefecture name, or "" when unknown */
+export const prefectureCode = (name: string) => {
+  const index = PREFECTURES.indexOf(name)
+  return index < 0 ? "" : String(index + 1).padStart(2, "0")
+}
+
+// First three digits of the postal code → prefecture. Zones follow the old postal districts, so the few
+// that cross a prefectural border list every prefecture they cover; islands served from another
+// prefecture's district (Oki, Iki, Tsushima) are listed under their own prefecture
+const POSTAL_ZONES: [first: number, last: number, prefectures: string[]][] = [
+  [1, 9, ["北海道"]],
+  [10, 19, ["秋田県"]],
+  [20, 29, ["岩手県"]],
+  [30, 39, ["青森県"]],
+  [40, 99, ["北海道"]],
+  [100, 198, ["東京都"]],
+  [199, 199, ["東京都", "神奈川県"]],
+  [200, 209, ["東京都"]],
+  [210, 259, ["神奈川県"]],
+  [260, 299, ["千葉県"]],
+  [300, 319, ["茨城県"]],
+  [320, 329, ["栃木県"]],
+  [330, 369, ["埼玉県"]],
+  [370, 379, ["群馬県"]],
+  [380, 399, ["長野県"]],
+  [400, 409, ["山梨県"]],
+  [410, 439, ["静岡県"]],
+  [440, 497, ["愛知県"]],
+  [498, 498, ["愛知県", "三重県"]],
+  [499, 499, ["愛知県"]],
+  [500, 509, ["岐阜県"]],
+  [510, 519, ["三重県"]],
+  [520, 529, ["滋賀県"]],
+  [530, 599, ["大阪府"]],
+  [600, 617, ["京都府"]],
+  // 島本町 (大阪府) shares the 大山崎 district
+  [618, 618, ["京都府", "大阪府"]],
+  [619, 629, ["京都府"]],
+  [630, 639, ["奈良県"]],
+  [640, 649, ["和歌山県"]],
+  [650, 679, ["兵庫県"]],
+  [680, 683, ["鳥取県"]],
+  // 境港 and the Oki islands
+  [684, 684, ["鳥取県", "島根県"]],
+  [685, 685, ["島根県"]],
+  [686, 689, ["鳥取県"]],
+  [690, 699, ["島根県"]],
+  [700, 719, ["岡山県"]],
+  [720, 739, ["広島県"]],
+  [740, 759, ["山口県"]],
+  [760, 769, ["香川県"]],
+  [770, 779, ["徳島県"]],
+  [780, 789, ["高知県"]],
+  [790, 799, ["愛媛県"]],
+  [800, 810, ["福岡県"]],
+  // 壱岐 (長崎県) shares a zone with 福岡市西区; 対馬 has one of its own
+  [811, 811, ["福岡県", "長崎県"]],
+  [812, 816, ["福岡県"]],
+  [817, 817, ["長崎県"]],
+  [818, 839, ["福岡県"]],
+  [840, 849, ["佐賀県"]],
+  [850, 859, ["長崎県"]],
+  [860, 869, ["熊本県"]],
+  [870, 870, ["大分県"]],
+  // 吉富町 and 上毛町 (福岡県) belong to the 中津 district
+  [871, 871, ["大分県", "福岡県"]],
+  [872, 879, ["大分県"]],
+  [880, 889, ["宮崎県"]],
+  [890, 899, ["鹿児島県"]],
+  [900, 909, ["沖縄県"]],
+  [910, 919, ["福井県"]],
+  [920, 929, ["石川県"]],
+  [930, 939, ["富山県"]],
+  [940, 959, ["新潟県"]],
+  [960, 979, ["福島県"]],
+  [980, 989, ["宮城県"]],
+  [990, 999, ["山形県"]],
+]
+
+/** Prefectures a postal code ("160-0023", "〒１６０００２３") can belong to; empty when it is not a postal code */
+export const prefecturesForPostalCode = (postalCode: string) => {
+  const digits = postalCode.normalize("NFKC").replace(/^〒/, "").replace(/[-‐－ー\s]/g, "")
+  if (!/^\d{7}$/.test(digits)) return []
+  const zone = Number(digits.slice(0, 3))
+  return POSTAL_ZONES.find(([first, last]) => zone >= first && zone <= last)?.[2] ?? []
+}
@@ -0,0 +1,93 @@
+import Encoding from "encoding-japanese"
+import { describe, expect, it } from "vitest"
+import { mappingFromColumns } from "@/lib/address-mapping"
+import { DEFAULT_OUTPUT_SCHEMA } from "@/lib/output-schema"
+import type { CoordinateColumns, GeocodedRow } from "@/lib/pipeline"
+import { PROJECT_FILE_VERSION, openProject, saveProject, type Project } from "@/lib/project-file"
+
+const coordinateColumns: CoordinateColumns = {
+  coordinateInput: "separate",
+  latColumn: "lat",
+  lngColumn: "lng",
+  latLonColumn: "",
+}
+
+describe("project file", () => {
+  const project = (source: File, rows: GeocodedRow[]): Project => ({
+    settings: {
+      mode: "forward",
+      shareSettings: true,
+      providerId: "gsi",
+      nominatimUrl: "",
+      minMatchLevel: 2,
+      normalizationRules: ["whitespace"],
+      fallback: true,
+      concurrency: 4,
+      requestsPerSecond: 10,
+      retry: { retries: 2, retryDelayMs: 1000, timeoutMs: 30000 },
+      useCache: true,
+      cacheTtlDays: 30,
+      exportFormat: "geojson",
+      coordinateFormat: "combined",
+      outputEncoding: "shift_jis",
+      missingGeometry: "omit",
+      derivedColumns: { columns: ["mesh3"], planeZone: 0, geohashPrecision: 9 },
+      outputSchema: DEFAULT_OUTPUT_SCHEMA,
+      placemarkNameColumn: "住所",
+      placemarkDescriptionColumn: "",
+    },
+    view: { statusFilter: "手動修正", query: "新宿", sort: { key: "latitude", descending: true }, page: 0 },
+    activeIndex: 0,
+    entries: [
+      {
+        file: source,
+        columns: ["住所"],
+        previewRows: [{ 住所: "東京都新宿区西新宿2-8-1" }],
+        sheetNames: [],
+        detectedDelimiter: ",",
+        detectedEncoding: { encoding: "Shift_JIS", bom: false },
+        settings: {
+          source: { encoding: "Shift_JIS", delimiter: "", sheetName: "", headerRow: 1 },
+          addressMapping: mappingFromColumns(["住所"]),
+          coordinates: coordinateColumns,
+        },
+        result: { rows, cancelled: false },
+      },
+    ],
+  })
+
+  it("restores the source file, settings and results it saved", async () => {
+    const text = "住所\n東京都新宿区西新宿2-8-1\n"
+    const bytes = new Uint8Array(Encoding.convert(Encoding.stringToCode(text), { to: "SJIS", from: "UNICODE" }))
+    const source = new File([bytes], "in.csv", { type: "text/csv" })
+    const rows: GeocodedRow[] = [
+      { 住所: "東京都新宿区西新宿2-8-1", latitude: 35.6896, longitude: 139.6921, geocoding_status: "手動修正" },
+      { 住所: "", latitude: undefined, longitude: undefined, geocoding_status: "スキップ" },
+    ]
+    const saved = project(source, rows)
+
+    const opened = await openProject(await saveProject(saved))
+
+    expect(opened.settings).toEqual(saved.settings)
+    expect(opened.view).toEqual(saved.view)
+    const [{ file, result, ...entry }] = opened.entries
+    const { file: _file, result: _result, ...savedEntry } = saved.entries[0]
+    expect(entry).toEqual(savedEntry)
+    expect(file.name).toBe("in.csv")
+    expect(new Uint8Array(await file.arrayBuffer())).toEqual(new Uint8Array(await source.arrayBuffer()))
+    // Empty cells keep their keys, so the export header stays the same
+    expect(result?.rows.map((row) => Object.keys(row))).toEqual(rows.map((row) => Object.keys(row)))
+    expect(result?.rows).toEqual(rows)
+  })
+
+  it("refuses files of a newer version", async () => {
+    const { default: JSZip } = await import("jszip")
+    const saved = await saveProject(project(new File(["住所\n"], "in.csv"), []))
+    const zip = await JSZip.loadAsync(await saved.arrayBuffer())
+    const manifest = JSON.parse((await zip.file("project.json")?.async("string")) ?? "{}")
+    zip.file("project.json", JSON.stringify({ ...manifest, version: PROJECT_FILE_VERSION + 1 }))
+
+    await expect(openProject(await zip.generateAsync({ type: "blob" }))).rejects.toThrow("新しいバージョン")
+    await expect(openProject(new Blob(["住所\n"]))).rejects.toThrow("プロジェクトファイルではありません")
+  })
+})
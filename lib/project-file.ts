@@ -0,0 +1,183 @@
+import type { NormalizationRuleId } from "@/lib/address-normalizer"
+import { loadJsZip, type BatchEntry, type BatchResult } from "@/lib/batch"
+import type { OutputEncoding } from "@/lib/encoding"
+import type { ExportFormat } from "@/lib/export-formats"
+import type { GeocodingMode, ProviderId } from "@/lib/geocoders"
+import type { DerivedColumnOptions } from "@/lib/grid-coordinates"
+import type { RetryOptions } from "@/lib/lookup-retry"
+import type { OutputSchema } from "@/lib/output-schema"
+import type { CoordinateFormat, GeocodedRow } from "@/lib/pipeline"
+
+// Raised whenever the stored layout changes; older files are upgraded in `migrateManifest`
+export const PROJECT_FILE_VERSION = 1
+
+export const PROJECT_FILE_EXTENSION = "a2lproj"
+
+const PROJECT_FORMAT = "address-to-latlon-project"
+const MANIFEST_NAME = "project.json"
+
+/** Page-wide settings, as opposed to those each file keeps in its `BatchEntry` */
+export interface ProjectSettings {
+  mode: GeocodingMode
+  shareSettings: boolean
+  providerId: ProviderId
+  nominatimUrl: string
+  minMatchLevel: number
+  normalizationRules: NormalizationRuleId[]
+  fallback: boolean
+  concurrency: number
+  requestsPerSecond: number
+  retry: RetryOptions
+  useCache: boolean
+  cacheTtlDays: number
+  exportFormat: ExportFormat
+  coordinateFormat: CoordinateFormat
+  outputEncoding: OutputEncoding
+  missingGeometry: "omit" | "null"
+  derivedColumns: DerivedColumnOptions
+  outputSchema: OutputSchema
+  placemarkNameColumn: string
+  placemarkDescriptionColumn: string
+}
+
+// How the results of the active file were being looked at
+export interface ProjectView {
+  statusFilter: string
+  query: string
+  sort: { key: string; descending: boolean } | null
+  page: number
+}
+
+export type ProjectEntry = Omit<BatchEntry, "id" | "resume">
+
+export interface Project {
+  settings: ProjectSettings
+  view: ProjectView
+  activeIndex: number
+  entries: ProjectEntry[]
+}
+
+// Rows are stored as a table: JSON would drop the keys of empty cells, and every row must keep all output keys
+interface StoredResult {
+  columns: string[]
+  rows: (string | number | null)[][]
+  cancelled: boolean
+  error?: string
+}
+
+interface StoredEntry extends Omit<ProjectEntry, "file" | "result"> {
+  // Path of the source file inside the archive
+  path: string
+  name: string
+  type: string
+  lastModified: number
+  result: StoredResult | null
+}
+
+interface ProjectManifest {
+  format: typeof PROJECT_FORMAT
+  version: number
+  savedAt: string
+  settings: ProjectSettings
+  view: ProjectView
+  activeIndex: number
+  entries: StoredEntry[]
+}
+
+const storeResult = ({ rows, cancelled, error }: BatchResult): StoredResult => {
+  const columns: string[] = []
+  const seen = new Set<string>()
+  rows.forEach((row) =>
+    Object.keys(row).forEach((key) => {
+      if (!seen.has(key)) columns.push(key)
+      seen.add(key)
+    })
+  )
+  return {
+    columns,
+    rows: rows.map((row) => columns.map((column) => row[column] ?? null)),
+    cancelled,
+    ...(error === undefined ? {} : { error }),
+  }
+}
+
+const restoreResult = ({ columns, rows, cancelled, error }: StoredResult): BatchResult => ({
+  rows: rows.map((values) => {
+    const row: GeocodedRow = {}
+    columns.forEach((column, i) => {
+      row[column] = values[i] ?? undefined
+    })
+    return row
+  }),
+  cancelled,
+  ...(error === undefined ? {} : { error }),
+})
+
+/**
+ * Packs the source files, their settings and results and the page-wide
+ * settings into one ZIP archive with a versioned manifest.
+ */
+export const saveProject = async ({ settings, view, activeIndex, entries }: Project) => {
+  const JSZip = await loadJsZip()
+  const zip = new JSZip()
+  const stored: StoredEntry[] = []
+  for (const [i, { file, result, ...entry }] of entries.entries()) {
+    const path = `sources/${i + 1}/${file.name}`
+    // An ArrayBuffer rather than the File itself, which JSZip can only read where FileReader exists
+    zip.file(path, await file.arrayBuffer())
+    stored.push({
+      ...entry,
+      path,
+      name: file.name,
+      type: file.type,
+      lastModified: file.lastModified,
+      result: result && storeResult(result),
+    })
+  }
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    settings,
+    view,
+    activeIndex,
+    entries: stored,
+  }
+  zip.file(MANIFEST_NAME, JSON.stringify(manifest))
+  return zip.generateAsync({ type: "blob", compression: "DEFLATE" })
+}
+
+// Upgrades a manifest written by an older version; there is only one version so far
+const migrateManifest = (manifest: ProjectManifest): ProjectManifest => manifest
+
+/** Reads a file written by `saveProject`, rejecting files of a newer version than this one */
+export const openProject = async (source: Blob): Promise<Project> => {
+  const JSZip = await loadJsZip()
+  const zip = await JSZip.loadAsync(await source.arrayBuffer()).catch(() => null)
+  const manifestFile = zip?.file(MANIFEST_NAME)
+  if (!zip || !manifestFile) throw new Error("プロジェクトファイルではありません")
+
+  const value: unknown = JSON.parse(await manifestFile.async("string"))
+  const manifest = value as Partial<ProjectManifest> | null
+  if (manifest?.format !== PROJECT_FORMAT || typeof manifest.version !== "number") {
+    throw new Error("プロジェクトファイルではありません")
+  }
+  if (manifest.version > PROJECT_FILE_VERSION) {
+    throw new Error(
+      `新しいバージョン（形式 ${manifest.version}）で保存されたプロジェクトです。ツールを最新版に更新してから開いてください`
+    )
+  }
+
+  const { settings, view, activeIndex, entries } = migrateManifest(manifest as ProjectManifest)
+  const restored: ProjectEntry[] = []
+  for (const { path, name, type, lastModified, result, ...entry } of entries) {
+    const sourceFile = zip.file(path)
+    if (!sourceFile) throw new Error(`プロジェクトに ${name} のデータがありません`)
+    restored.push({
+      ...entry,
+      file: new File([await sourceFile.async("arraybuffer")], name, { type, lastModified }),
+      result: result && restoreResult(result),
+    })
+  }
+  return { settings, view, activeIndex: Math.max(0, Math.min(activeIndex, restored.length - 1)), entries: restored }
+}
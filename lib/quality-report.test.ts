@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+import type { GeocodedRow } from "@/lib/pipeline"
+import { buildQualityReport, qualityReportToCsv } from "@/lib/quality-report"
+
+describe("buildQualityReport", () => {
+  const located = (address: string, city: string, lat: number, lng: number): GeocodedRow => ({
+    normalized_address: address,
+    normalized_pref: "東京都",
+    normalized_city: city,
+    latitude: lat,
+    longitude: lng,
+    geocoding_level: 3,
+    geocoding_status: "成功",
+  })
+  const rows: GeocodedRow[] = [
+    located("東京都新宿区西新宿2-8-1", "新宿区", 35.6895, 139.6917),
+    located("東京都新宿区西新宿2-8-1", "新宿区", 35.6895, 139.6917),
+    located("東京都新宿区西新宿1-1-1", "新宿区", 35.6905, 139.6995),
+    located("東京都新宿区新宿3-1-1", "新宿区", 35.6916, 139.7051),
+    located("東京都新宿区大久保1-1-1", "新宿区", 34.6937, 135.5023),
+    located("東京都新宿区何処か", "新宿区", 35.6938, 139.7034),
+    located("東京都新宿区何処か2", "新宿区", 35.6938, 139.7034),
+    located("東京都港区", "港区", 0, 0),
+    { normalized_address: "不明", geocoding_status: "失敗" },
+  ]
+  const points = rows.map((row) =>
+    typeof row.latitude === "number" && typeof row.longitude === "number"
+      ? { lat: row.latitude, lng: row.longitude }
+      : null
+  )
+  const report = buildQualityReport(rows, points, "forward", ["成功", "失敗"])
+
+  it("counts rows by status, level and area", () => {
+    expect(report.statuses).toEqual([
+      { label: "成功", count: 8 },
+      { label: "失敗", count: 1 },
+    ])
+    expect(report.levels).toEqual([{ label: "3: 町丁目", count: 8 }])
+    expect(report.prefectures[0]).toEqual({ pref: "東京都", city: "", count: 8, located: 8 })
+    expect(report.cities.map(({ city, count }) => [city, count])).toEqual([
+      ["新宿区", 7],
+      ["港区", 1],
+      ["", 1],
+    ])
+  })
+
+  it("flags points outside Japan, far from their municipality or shared by different addresses", () => {
+    expect(report.issues.map(({ row, flag }) => [row, flag])).toEqual([
+      [4, "far_from_city"],
+      [5, "shared_coordinates"],
+      [6, "shared_coordinates"],
+      [7, "outside_japan"],
+    ])
+    expect(qualityReportToCsv(report)).toContain("要確認,日本の範囲外,,8,")
+  })
+})
@@ -0,0 +1,212 @@
+import Papa from "papaparse"
+import { countStatuses } from "@/lib/batch"
+import { coordinateKey } from "@/lib/coordinates"
+import type { GeocodingMode } from "@/lib/geocoders"
+import { MATCH_LEVEL_LABELS, type GeocodedRow } from "@/lib/pipeline"
+
+export type QualityFlag = "outside_japan" | "far_from_city" | "shared_coordinates"
+
+export const QUALITY_FLAGS: { id: QualityFlag; label: string }[] = [
+  { id: "outside_japan", label: "日本の範囲外" },
+  { id: "far_from_city", label: "同じ市区町村の他の行から離れている" },
+  { id: "shared_coordinates", label: "異なる住所と同じ座標" },
+]
+
+export const qualityFlagLabel = (flag: QualityFlag) => QUALITY_FLAGS.find((f) => f.id === flag)?.label ?? flag
+
+export interface QualityIssue {
+  // Index into the rows the report was built from
+  row: number
+  flag: QualityFlag
+  detail: string
+}
+
+export interface QualityCount {
+  label: string
+  count: number
+}
+
+export interface AreaCount {
+  pref: string
+  city: string
+  count: number
+  // Rows of the area that got a usable position
+  located: number
+}
+
+export interface QualityReport {
+  total: number
+  statuses: QualityCount[]
+  levels: QualityCount[]
+  prefectures: AreaCount[]
+  cities: AreaCount[]
+  issues: QualityIssue[]
+}
+
+type Point = { lat: number; lng: number } | null
+
+// Generous box around the outlying islands: Okinotorishima, Minamitorishima, Yonaguni and Etorofu
+export const JAPAN_BOUNDS = { south: 20.4, north: 45.6, west: 122.9, east: 154.0 }
+
+// A point is far when it lies this many times the area's median spread from its centre, and at least the minimum
+const OUTLIER_SPREAD_FACTOR = 5
+const OUTLIER_MIN_KM = 10
+// Smaller areas have no meaningful centre
+const OUTLIER_MIN_POINTS = 3
+
+const distanceKm = (a: { lat: number; lng: number }, b: { lat: number; lng: number }) => {
+  const rad = Math.PI / 180
+  const dLat = (b.lat - a.lat) * rad
+  const dLng = (b.lng - a.lng) * rad
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * rad) * Math.cos(b.lat * rad) * Math.sin(dLng / 2) ** 2
+  return 2 * 6371 * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+const isInJapan = ({ lat, lng }: { lat: number; lng: number }) =>
+  lat >= JAPAN_BOUNDS.south && lat <= JAPAN_BOUNDS.north && lng >= JAPAN_BOUNDS.west && lng <= JAPAN_BOUNDS.east
+
+const areaOf = (row: GeocodedRow, mode: GeocodingMode) =>
+  mode === "reverse"
+    ? { pref: row.reverse_pref ?? "", city: row.reverse_city ?? "" }
+    : { pref: row.normalized_pref ?? "", city: row.normalized_city ?? "" }
+
+const countAreas = (keys: { pref: string; city: string; located: boolean }[]) => {
+  const counts = new Map<string, AreaCount>()
+  keys.forEach(({ pref, city, located }) => {
+    const key = `${pref}\t${city}`
+    const area = counts.get(key) ?? { pref, city, count: 0, located: 0 }
+    area.count++
+    if (located) area.located++
+    counts.set(key, area)
+  })
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count)
+}
+
+/** Rows whose position lies far from the other rows of the same municipality */
+const findCityOutliers = (rows: GeocodedRow[], points: Point[], mode: GeocodingMode) => {
+  const groups = new Map<string, number[]>()
+  rows.forEach((row, i) => {
+    const { pref, city } = areaOf(row, mode)
+    const point = points[i]
+    if (!city || !point || !isInJapan(point)) return
+    const key = `${pref}${city}`
+    const group = groups.get(key) ?? []
+    group.push(i)
+    groups.set(key, group)
+  })
+
+  const issues: QualityIssue[] = []
+  groups.forEach((indexes, area) => {
+    if (indexes.length < OUTLIER_MIN_POINTS) return
+    const located = indexes.map((i) => points[i] as { lat: number; lng: number })
+    // The median is not pulled towards the outliers themselves
+    const centre = { lat: median(located.map((p) => p.lat)), lng: median(located.map((p) => p.lng)) }
+    const distances = located.map((point) => distanceKm(centre, point))
+    const limit = Math.max(OUTLIER_MIN_KM, OUTLIER_SPREAD_FACTOR * median(distances))
+    indexes.forEach((row, n) => {
+      if (distances[n] > limit) {
+        issues.push({ row, flag: "far_from_city", detail: `${area}の中心から ${distances[n].toFixed(1)} km` })
+      }
+    })
+  })
+  return issues
+}
+
+/** Rows that share their exact position with a different address, usually a coarse fallback */
+const findSharedCoordinates = (rows: GeocodedRow[], points: Point[]) => {
+  const groups = new Map<string, number[]>()
+  points.forEach((point, i) => {
+    if (!point) return
+    const key = coordinateKey(point.lat, point.lng)
+    const group = groups.get(key) ?? []
+    group.push(i)
+    groups.set(key, group)
+  })
+
+  const issues: QualityIssue[] = []
+  groups.forEach((indexes) => {
+    const addresses = new Set(indexes.map((i) => rows[i].normalized_address ?? ""))
+    if (addresses.size < 2) return
+    indexes.forEach((row) =>
+      issues.push({ row, flag: "shared_coordinates", detail: `${addresses.size} 件の異なる住所が同じ座標` })
+    )
+  })
+  return issues
+}
+
+/**
+ * Summarises a finished run: counts by status, match level and area, and the
+ * rows whose position looks suspicious. `points` holds each row's position as
+ * shown on the map. Statuses are listed in `statusOrder` first.
+ */
+export const buildQualityReport = (
+  rows: GeocodedRow[],
+  points: Point[],
+  mode: GeocodingMode,
+  statusOrder: string[] = []
+): QualityReport => {
+  const levels = new Map<string, number>()
+  if (mode === "forward") {
+    rows.forEach((row) => {
+      if (typeof row.geocoding_level !== "number") return
+      const label = `${row.geocoding_level}: ${MATCH_LEVEL_LABELS[row.geocoding_level] ?? "不明"}`
+      levels.set(label, (levels.get(label) ?? 0) + 1)
+    })
+  }
+
+  const rank = (status: string) => (statusOrder.includes(status) ? statusOrder.indexOf(status) : statusOrder.length)
+  const areas = rows.map((row, i) => ({ ...areaOf(row, mode), located: points[i] !== null }))
+  const outsideJapan = points.flatMap((point, row): QualityIssue[] =>
+    point && !isInJapan(point)
+      ? [{ row, flag: "outside_japan", detail: `${point.lat.toFixed(6)}, ${point.lng.toFixed(6)}` }]
+      : []
+  )
+  // Reverse geocoding starts from the coordinates, so sharing them says nothing about the result
+  const shared = mode === "forward" ? findSharedCoordinates(rows, points) : []
+
+  return {
+    total: rows.length,
+    statuses: Array.from(countStatuses(rows), ([label, count]) => ({ label, count })).sort(
+      (a, b) => rank(a.label) - rank(b.label)
+    ),
+    levels: Array.from(levels, ([label, count]) => ({ label, count })).sort((a, b) => a.label.localeCompare(b.label)),
+    prefectures: countAreas(areas.map(({ pref, located }) => ({ pref, city: "", located }))),
+    cities: countAreas(areas),
+    issues: [...outsideJapan, ...findCityOutliers(rows, points, mode), ...shared].sort((a, b) => a.row - b.row),
+  }
+}
+
+/** One table covering every section; issue rows carry the 1-based row number */
+export const qualityReportToCsv = (report: QualityReport) =>
+  Papa.unparse(
+    [
+      ...report.statuses.map(({ label, count }) => ({ 区分: "ステータス", 項目: label, 件数: count })),
+      ...report.levels.map(({ label, count }) => ({ 区分: "一致レベル", 項目: label, 件数: count })),
+      ...report.prefectures.map(({ pref, count }) => ({ 区分: "都道府県", 項目: pref || "（不明）", 件数: count })),
+      ...report.cities.map(({ pref, city, count }) => ({
+        区分: "市区町村",
+        項目: `${pref}${city}` || "（不明）",
+        件数: count,
+      })),
+      ...report.issues.map(({ row, flag, detail }) => ({
+        区分: "要確認",
+        項目: qualityFlagLabel(flag),
+        行: row + 1,
+        詳細: detail,
+      })),
+    ],
+    { columns: ["区分", "項目", "件数", "行", "詳細"] }
+  )
+
+export const qualityReportToJson = (report: QualityReport) =>
+  JSON.stringify(
+    { ...report, issues: report.issues.map((issue) => ({ ...issue, row: issue.row + 1 })) },
+    null,
+    2
+  )
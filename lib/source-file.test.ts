@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest"
+import { guessAddressMapping } from "@/lib/address-mapping"
+import { matrixToTable, pastedTextToFile, readSourceTable } from "@/lib/source-file"
+
+describe("matrixToTable", () => {
+  it("keys each row by the header row and names blank or repeated headers", () => {
+    const { columns, rows } = matrixToTable(
+      [
+        ["メモ", ""],
+        ["住所", "", "住所"],
+        ["東京都新宿区", "a", "b"],
+        ["", " ", ""],
+        ["大阪府大阪市"],
+      ],
+      2
+    )
+
+    expect(columns).toEqual(["住所", "列2", "住所_2"])
+    expect(rows).toEqual([
+      { 住所: "東京都新宿区", 列2: "a", 住所_2: "b" },
+      { 住所: "大阪府大阪市", 列2: "", 住所_2: "" },
+    ])
+  })
+
+  it("adds the columns of a row wider than the header to the rows before it", () => {
+    const { columns, rows } = matrixToTable([["住所"], ["東京都"], ["大阪府", "備考"]], 1)
+
+    expect(columns).toEqual(["住所", "列2"])
+    expect(rows).toEqual([
+      { 住所: "東京都", 列2: "" },
+      { 住所: "大阪府", 列2: "備考" },
+    ])
+  })
+})
+
+describe("pastedTextToFile", () => {
+  it("reads pasted addresses with or without a header line", async () => {
+    const options = { encoding: "utf-8", delimiter: "\t", headerRow: 1 }
+
+    const list = await readSourceTable(pastedTextToFile("東京都新宿区西新宿2-8-1\n\n北海道札幌市中央区北1条西2丁目\n"), options)
+    const sheet = await readSourceTable(pastedTextToFile("名前\t所在地\n都庁\t東京都新宿区西新宿2-8-1"), options)
+    const unnamed = await readSourceTable(pastedTextToFile("都庁\t東京都新宿区西新宿2-8-1\n"), options)
+
+    expect(list.columns).toEqual(["住所"])
+    expect(list.rows.map((row) => row.住所)).toEqual(["東京都新宿区西新宿2-8-1", "北海道札幌市中央区北1条西2丁目"])
+    expect(sheet.rows).toEqual([{ 名前: "都庁", 所在地: "東京都新宿区西新宿2-8-1" }])
+    expect(unnamed.columns).toEqual(["列1", "列2"])
+    expect(guessAddressMapping(unnamed.columns, unnamed.rows).find((part) => part.role === "address")?.column).toBe("列2")
+  })
+})
@@ -0,0 +1,210 @@
+import Papa from "papaparse"
+import { isHeaderRow } from "@/lib/address-mapping"
+import { createDelimitedParser } from "@/lib/delimited-parser"
+import { readWorkbookSheets } from "@/lib/spreadsheet"
+
+export type SourceKind = "delimited" | "xlsx"
+
+export interface SourceOptions {
+  encoding: string
+  // "" lets Papa Parse detect the delimiter
+  delimiter: string
+  // Worksheet to read from an .xlsx file; the first sheet when omitted or unknown
+  sheetName?: string
+  // 1-based row that holds the column names; rows above it are ignored
+  headerRow: number
+}
+
+export interface SourceTable {
+  columns: string[]
+  rows: Record<string, string>[]
+  sheetNames: string[]
+  // Delimiter actually used for delimited text, "" for .xlsx
+  delimiter: string
+}
+
+export const DELIMITER_OPTIONS = [
+  { value: "", label: "自動判定" },
+  { value: ",", label: "カンマ (,)" },
+  { value: "\t", label: "タブ" },
+  { value: ";", label: "セミコロン (;)" },
+  { value: "|", label: "パイプ (|)" },
+]
+
+export const SOURCE_FILE_ACCEPT = ".csv,.tsv,.txt,.xlsx"
+
+export const sourceKindOf = (file: File): SourceKind => (/\.xlsx$/i.test(file.name) ? "xlsx" : "delimited")
+
+export const stripSourceExtension = (fileName: string) => fileName.replace(/\.(csv|tsv|txt|xlsx)$/i, "")
+
+export const PASTED_FILE_NAME = "貼り付けたデータ.tsv"
+
+/**
+ * Turns text pasted from a spreadsheet (tab-separated) or a list of addresses,
+ * one per line, into a TSV file that goes through the same steps as an
+ * uploaded one. Without a header line one is made up: "住所" for a single
+ * column, "列N" otherwise.
+ */
+export const pastedTextToFile = (text: string) => {
+  const matrix = Papa.parse<string[]>(text, { delimiter: "\t", skipEmptyLines: "greedy" }).data
+  if (matrix.length === 0) throw new Error("貼り付けたテキストに住所がありません")
+  const width = Math.max(...matrix.map((cells) => cells.length))
+  const header = isHeaderRow(matrix[0], matrix.slice(1))
+    ? []
+    : [width === 1 ? ["住所"] : Array.from({ length: width }, (_, i) => `列${i + 1}`)]
+  return new File([Papa.unparse([...header, ...matrix], { delimiter: "\t" })], PASTED_FILE_NAME, {
+    type: "text/tab-separated-values",
+  })
+}
+
+/**
+ * Collects cell rows one at a time and turns each into a record keyed by the
+ * header row as it arrives, so the cells are not kept. Blank headers become
+ * "列N" and duplicates get a numeric suffix so no column is lost.
+ */
+export const createTableCollector = (headerRow: number) => {
+  const headerIndex = Math.max(0, headerRow - 1)
+  let lineIndex = 0
+  let header: string[] = []
+  const columns: string[] = []
+  const seen = new Map<string, number>()
+  const rows: Record<string, string>[] = []
+  // Number of columns every collected row has a key for
+  let filledWidth = Infinity
+
+  // Names the columns up to `width`; a row wider than the header adds "列N" columns
+  const widenTo = (width: number) => {
+    for (let i = columns.length; i < width; i++) {
+      const base = (header[i] ?? "").trim() || `列${i + 1}`
+      const count = seen.get(base) ?? 0
+      seen.set(base, count + 1)
+      columns.push(count === 0 ? base : `${base}_${count + 1}`)
+    }
+  }
+
+  return {
+    add: (cells: string[]) => {
+      if (lineIndex === headerIndex) {
+        header = cells
+        widenTo(cells.length)
+      } else if (lineIndex > headerIndex && cells.some((cell) => cell.trim() !== "")) {
+        widenTo(cells.length)
+        const row: Record<string, string> = {}
+        columns.forEach((column, i) => {
+          row[column] = cells[i] ?? ""
+        })
+        rows.push(row)
+        filledWidth = Math.min(filledWidth, columns.length)
+      }
+      lineIndex++
+    },
+    finish: () => {
+      // Rows collected before a wider one came along get the new columns as blanks
+      if (filledWidth < columns.length) {
+        const added = columns.slice(filledWidth)
+        rows.forEach((row) =>
+          added.forEach((column) => {
+            if (!(column in row)) row[column] = ""
+          })
+        )
+        filledWidth = columns.length
+      }
+      return { columns: [...columns], rows }
+    },
+  }
+}
+
+export const matrixToTable = (matrix: string[][], headerRow: number) => {
+  const collector = createTableCollector(headerRow)
+  matrix.forEach((cells) => collector.add(cells))
+  return collector.finish()
+}
+
+const readDelimited = async (file: File, options: SourceOptions): Promise<SourceTable> => {
+  const text = new TextDecoder(options.encoding).decode(await file.arrayBuffer())
+  const results = Papa.parse<string[]>(text, { delimiter: options.delimiter, skipEmptyLines: true })
+  // Papa reports recoverable problems (e.g. ragged rows) as errors; only give up when nothing parsed
+  if (results.data.length === 0 && results.errors.length > 0) {
+    throw new Error(`CSVの読み込みエラー: ${results.errors[0].message}`)
+  }
+  return { ...matrixToTable(results.data, options.headerRow), sheetNames: [], delimiter: results.meta.delimiter }
+}
+
+const readXlsx = async (file: File, options: SourceOptions): Promise<SourceTable> => {
+  const sheets = await readWorkbookSheets(await file.arrayBuffer())
+  if (sheets.length === 0) throw new Error("ワークシートが見つかりません")
+  const sheet = sheets.find((s) => s.name === options.sheetName) ?? sheets[0]
+  return { ...matrixToTable(sheet.cells, options.headerRow), sheetNames: sheets.map((s) => s.name), delimiter: "" }
+}
+
+/** Reads a CSV / TSV / text / .xlsx file into rows keyed by column name */
+export const readSourceTable = (file: File, options: SourceOptions) =>
+  sourceKindOf(file) === "xlsx" ? readXlsx(file, options) : readDelimited(file, options)
+
+const PREVIEW_BYTES = 1024 * 1024
+
+/**
+ * Reads only the start of a delimited file, enough for the column list and
+ * sample rows without decoding a large file on the main thread. .xlsx files
+ * are read whole.
+ */
+export const readSourcePreview = async (file: File, options: SourceOptions): Promise<SourceTable> => {
+  if (sourceKindOf(file) === "xlsx" || file.size <= PREVIEW_BYTES) return readSourceTable(file, options)
+  const text = new TextDecoder(options.encoding).decode(await file.slice(0, PREVIEW_BYTES).arrayBuffer(), {
+    stream: true,
+  })
+  // The last line is probably cut off, so it is dropped
+  const results = Papa.parse<string[]>(text.slice(0, text.lastIndexOf("\n") + 1), {
+    delimiter: options.delimiter,
+    skipEmptyLines: true,
+  })
+  return { ...matrixToTable(results.data, options.headerRow), sheetNames: [], delimiter: results.meta.delimiter }
+}
+
+export interface StreamOptions {
+  // Called after each chunk with the number of bytes consumed so far
+  onProgress?: (bytesRead: number) => void
+  isCancelled?: () => boolean
+}
+
+/**
+ * Like readSourceTable, but decodes and parses delimited text chunk by chunk
+ * so that the file is never held as one string. Resolves null when
+ * cancelled part way.
+ */
+export const streamSourceTable = async (
+  file: File,
+  options: SourceOptions,
+  { onProgress, isCancelled }: StreamOptions = {}
+): Promise<SourceTable | null> => {
+  if (sourceKindOf(file) === "xlsx") return readXlsx(file, options)
+
+  const collector = createTableCollector(options.headerRow)
+  const decoder = new TextDecoder(options.encoding)
+  const reader = file.stream().getReader()
+  let delimiter = options.delimiter
+  let parser: ReturnType<typeof createDelimitedParser> | null = null
+  let bytesRead = 0
+
+  while (true) {
+    if (isCancelled?.()) {
+      await reader.cancel()
+      return null
+    }
+    const { done, value } = await reader.read()
+    const text = done ? decoder.decode() : decoder.decode(value, { stream: true })
+    if (text) {
+      // Auto-detection looks at the first chunk only, which holds plenty of lines
+      if (!parser) {
+        delimiter ||= Papa.parse(text, { preview: 10 }).meta.delimiter || ","
+        parser = createDelimitedParser(delimiter, collector.add)
+      }
+      parser.push(text)
+    }
+    if (done) break
+    bytesRead += value.byteLength
+    onProgress?.(bytesRead)
+  }
+  parser?.end()
+  return { ...collector.finish(), sheetNames: [], delimiter }
+}
@@ -0,0 +1,64 @@
+import type { CellValue } from "exceljs"
+import type { ExportRow } from "@/lib/export-formats"
+
+// exceljs is large, so it is only loaded once a workbook is actually read or written
+const loadExcelJS = async () => (await import("exceljs")).default
+
+const cellToText = (value: CellValue): string => {
+  if (value === null || value === undefined) return ""
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === "object") {
+    if ("richText" in value) return value.richText.map((part) => part.text).join("")
+    if ("formula" in value || "sharedFormula" in value) return cellToText((value.result ?? "") as CellValue)
+    if ("hyperlink" in value) return String(value.text)
+    if ("error" in value) return String(value.error)
+    return ""
+  }
+  return String(value)
+}
+
+/** Reads every worksheet as a matrix of cell text */
+export const readWorkbookSheets = async (buffer: ArrayBuffer) => {
+  const ExcelJS = await loadExcelJS()
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(buffer)
+  return workbook.worksheets.map((worksheet) => {
+    const cells: string[][] = []
+    worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+      // exceljs row values are 1-based and sparse
+      const values = Array.isArray(row.values) ? row.values.slice(1) : []
+      cells[rowNumber - 1] = Array.from(values, (value) => cellToText(value as CellValue))
+    })
+    return { name: worksheet.name, cells: Array.from(cells, (row) => row ?? []) }
+  })
+}
+
+export interface WorkbookOptions {
+  sheetName: string
+  // Rows for which this returns true get a red fill
+  highlight: (row: ExportRow) => boolean
+}
+
+/**
+ * Builds an .xlsx file from the export rows. Numbers (latitude, longitude,
+ * match level) stay numeric cells so they can be used in formulas.
+ */
+export const buildWorkbook = async (rows: ExportRow[], { sheetName, highlight }: WorkbookOptions) => {
+  const ExcelJS = await loadExcelJS()
+  const workbook = new ExcelJS.Workbook()
+  const worksheet = workbook.addWorksheet(sheetName)
+  const columns = rows.length > 0 ? Object.keys(rows[0]) : []
+
+  worksheet.columns = columns.map((key) => ({ header: key, key }))
+  worksheet.getRow(1).font = { bold: true }
+  worksheet.views = [{ state: "frozen", ySplit: 1 }]
+
+  rows.forEach((row) => {
+    const added = worksheet.addRow(columns.map((key) => row[key] ?? null))
+    if (highlight(row)) {
+      added.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFFDE2E2" } }
+    }
+  })
+
+  return workbook.xlsx.writeBuffer()
+}